@@ -0,0 +1,76 @@
+import { cn } from '@/lib/utils'
+import type { StepSelection } from '@/lib/trackOps'
+import { normalizeSelection } from '@/lib/trackOps'
+
+interface EditToolbarProps {
+  selection: StepSelection | null
+  selectMode: boolean
+  canPaste: boolean
+  onToggleSelectMode: () => void
+  onCopy: () => void
+  onPaste: () => void
+  onNudge: (direction: -1 | 1) => void
+  onReverse: () => void
+  onInvert: () => void
+  onDouble: () => void
+  onClear: () => void
+  onDeselect: () => void
+}
+
+const buttonClass = "px-2.5 py-1 text-xs font-medium rounded-md border border-border bg-background hover:bg-muted/30 transition-colors disabled:opacity-40 disabled:hover:bg-background"
+
+export default function EditToolbar({
+  selection,
+  selectMode,
+  canPaste,
+  onToggleSelectMode,
+  onCopy,
+  onPaste,
+  onNudge,
+  onReverse,
+  onInvert,
+  onDouble,
+  onClear,
+  onDeselect
+}: EditToolbarProps) {
+  const range = selection && normalizeSelection(selection)
+  const trackCount = range ? range.endTrack - range.startTrack + 1 : 0
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mb-4">
+      <button
+        onClick={onToggleSelectMode}
+        className={cn(
+          buttonClass,
+          selectMode && "bg-primary/10 text-primary border-primary/40 hover:bg-primary/15"
+        )}
+        title="Drag across steps to select them instead of toggling (or hold Alt while dragging)"
+      >
+        Select
+      </button>
+      <span className="text-xs text-muted-foreground w-40 px-1">
+        {range
+          ? `Steps ${range.startStep + 1}-${range.endStep + 1}, ${trackCount} ${trackCount === 1 ? 'track' : 'tracks'}`
+          : 'No selection'}
+      </span>
+
+      <div className="w-px h-5 bg-border mx-1"></div>
+      <button onClick={onCopy} disabled={!selection} className={buttonClass} title="Copy (Ctrl+C)">Copy</button>
+      <button onClick={onPaste} disabled={!selection || !canPaste} className={buttonClass} title="Paste at the selection (Ctrl+V)">Paste</button>
+
+      <div className="w-px h-5 bg-border mx-1"></div>
+      <button onClick={() => onNudge(-1)} disabled={!selection} className={buttonClass} title="Nudge left, wrapping around">◀</button>
+      <button onClick={() => onNudge(1)} disabled={!selection} className={buttonClass} title="Nudge right, wrapping around">▶</button>
+      <button onClick={onReverse} disabled={!selection} className={buttonClass}>Reverse</button>
+      <button onClick={onInvert} disabled={!selection} className={buttonClass}>Invert</button>
+      <button onClick={onDouble} disabled={!selection} className={buttonClass} title="Copy each selected track after itself and double its length">Double</button>
+      <button onClick={onClear} disabled={!selection} className={buttonClass} title="Clear the selected steps (Delete)">Clear</button>
+
+      {selection && (
+        <button onClick={onDeselect} className="text-xs text-muted-foreground hover:text-foreground px-1.5" title="Deselect (Esc)">
+          Deselect
+        </button>
+      )}
+    </div>
+  )
+}
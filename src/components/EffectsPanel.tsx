@@ -1,6 +1,15 @@
 import { useState, useCallback } from 'react'
 import { cn } from '@/lib/utils'
-import type { TrackEffect, EffectType, EffectParams } from '@/lib/effectsEngine'
+import type { TrackEffect } from '@/lib/effectsEngine'
+import type { EffectType, EffectParams, EffectParamSchema, EffectParamValue } from '@/lib/effectRegistry'
+import { EFFECT_TYPES, getEffectDefinition, formatEffectParam } from '@/lib/effectRegistry'
+import type { NoteValue } from '@/lib/meter'
+import { NOTE_VALUES } from '@/lib/meter'
+import type { AuxBus, TrackSend } from '@/lib/buses'
+import { getTrackSend } from '@/lib/buses'
+import type { Modulator } from '@/lib/modulation'
+import PresetBrowser from './PresetBrowser'
+import ModulationPanel from './ModulationPanel'
 
 interface EffectsPanelProps {
   trackIndex: number
@@ -10,15 +19,91 @@ interface EffectsPanelProps {
   onRemoveEffect: (trackIndex: number, effectId: string) => void
   onUpdateEffect: (trackIndex: number, effectId: string, params: Partial<EffectParams>) => void
   onToggleEffect: (trackIndex: number, effectId: string) => void
+  onDuplicateEffect: (trackIndex: number, effect: TrackEffect, slot: number) => void
+  onMoveEffect: (trackIndex: number, fromSlot: number, toSlot: number) => void
+  onSetEffects: (trackIndex: number, effects: TrackEffect[]) => void
+  // Track panels also show the sends into each aux bus
+  buses?: AuxBus[]
+  sends?: Record<string, TrackSend>
+  onSendChange?: (busId: string, changes: Partial<TrackSend>) => void
+  // Track panels also show the modulators driving the effects
+  modulators?: Modulator[]
+  onModulatorsChange?: (modulators: Modulator[]) => void
   onClose: () => void
 }
 
-const EFFECT_TYPES: { type: EffectType; name: string; icon: string }[] = [
-  { type: 'reverb', name: 'Reverb', icon: '🏛️' },
-  { type: 'delay', name: 'Delay', icon: '🔄' },
-  { type: 'distortion', name: 'Distortion', icon: '⚡' },
-  { type: 'filter', name: 'Filter', icon: '🎛️' }
-]
+interface EffectParamControlProps {
+  param: EffectParamSchema
+  params: EffectParams
+  onChange: (params: Partial<EffectParams>) => void
+}
+
+// One control generated from a parameter's schema: a select for enum parameters,
+// a slider for numeric ones, with a note value picker when it can follow the tempo
+function EffectParamControl({ param, params, onChange }: EffectParamControlProps) {
+  if (param.kind === 'enum') {
+    const value = params[param.key] as EffectParamValue
+    return (
+      <div>
+        <label className="text-sm font-medium text-foreground block mb-2">
+          {param.label}: {param.options.find(option => option.value === value)?.label ?? value}
+        </label>
+        <select
+          value={String(value)}
+          onChange={(e) => {
+            const option = param.options.find(option => String(option.value) === e.target.value)
+            if (option) onChange({ [param.key]: option.value })
+          }}
+          className="w-full p-2 bg-background border border-border rounded-lg"
+        >
+          {param.options.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+    )
+  }
+
+  const value = params[param.key] as number
+  const synced = param.sync ? params.sync?.[param.key] : undefined
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-foreground">
+          {param.label}: {synced
+            ? NOTE_VALUES.find(option => option.value === synced)?.label
+            : formatEffectParam(param, value)}
+        </label>
+        {param.sync && (
+          <select
+            value={synced ?? ''}
+            onChange={(e) => onChange({
+              sync: { ...params.sync, [param.key]: e.target.value ? e.target.value as NoteValue : undefined }
+            })}
+            className="h-8 px-2 text-sm bg-background border border-border rounded-lg"
+            title="Follow the tempo with a note value"
+          >
+            <option value="">Free</option>
+            {NOTE_VALUES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      {!synced && (
+        <input
+          type="range"
+          min={param.min}
+          max={param.max}
+          step={param.step}
+          value={value}
+          onChange={(e) => onChange({ [param.key]: parseFloat(e.target.value) })}
+          className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+        />
+      )}
+    </div>
+  )
+}
 
 export default function EffectsPanel({
   trackIndex,
@@ -28,46 +113,78 @@ export default function EffectsPanel({
   onRemoveEffect,
   onUpdateEffect,
   onToggleEffect,
+  onDuplicateEffect,
+  onMoveEffect,
+  onSetEffects,
+  buses,
+  sends,
+  onSendChange,
+  modulators,
+  onModulatorsChange,
   onClose
 }: EffectsPanelProps) {
-  const [activeTab, setActiveTab] = useState<EffectType>('reverb')
+  const [adding, setAdding] = useState(effects.length === 0)
+  // Slot being dragged to a new position, and the slot it would land on
+  const [slotDrag, setSlotDrag] = useState<{ from: number; to: number } | null>(null)
 
   const handleAddEffect = useCallback((effectType: EffectType) => {
     onAddEffect(trackIndex, effectType)
+    setAdding(false)
   }, [trackIndex, onAddEffect])
 
-  const getEffectOfType = (type: EffectType) => {
-    return effects.find(effect => effect.type === type)
-  }
-
-  const renderEffectControls = (effectType: EffectType) => {
-    const effect = getEffectOfType(effectType)
-    
-    if (!effect) {
-      return (
-        <div className="text-center py-8">
-          <p className="text-muted-foreground mb-4">No {effectType} effect added</p>
-          <button
-            onClick={() => handleAddEffect(effectType)}
-            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
-          >
-            Add {effectType.charAt(0).toUpperCase() + effectType.slice(1)}
-          </button>
-        </div>
-      )
-    }
+  const renderEffect = (effect: TrackEffect, slot: number) => {
+    const definition = getEffectDefinition(effect.type)
+    // Effects saved before a parameter existed fall back to its default
+    const params: EffectParams = { ...definition.defaults, ...effect.params }
 
     return (
-      <div className="space-y-4">
+      <div
+        key={effect.id}
+        onDragOver={(e) => {
+          if (!slotDrag) return
+          e.preventDefault()
+          if (slotDrag.to !== slot) setSlotDrag({ ...slotDrag, to: slot })
+        }}
+        onDrop={(e) => {
+          e.preventDefault()
+          if (slotDrag && slotDrag.from !== slotDrag.to) onMoveEffect(trackIndex, slotDrag.from, slotDrag.to)
+          setSlotDrag(null)
+        }}
+        className={cn(
+          "space-y-4 p-4 rounded-lg border border-border/50 bg-muted/20",
+          slotDrag && slotDrag.to === slot && slotDrag.from !== slot && "ring-2 ring-primary/60",
+          slotDrag?.from === slot && "opacity-50"
+        )}
+      >
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
-            <span className="font-medium">{effectType.charAt(0).toUpperCase() + effectType.slice(1)}</span>
+            {/* Drag handle for reordering */}
+            <div
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move'
+                setSlotDrag({ from: slot, to: slot })
+              }}
+              onDragEnd={() => setSlotDrag(null)}
+              className="text-muted-foreground/60 hover:text-foreground cursor-grab active:cursor-grabbing px-0.5"
+              title="Drag to reorder"
+            >
+              <svg className="w-3 h-4" fill="currentColor" viewBox="0 0 12 16">
+                <circle cx="4" cy="3" r="1.25" /><circle cx="8" cy="3" r="1.25" />
+                <circle cx="4" cy="8" r="1.25" /><circle cx="8" cy="8" r="1.25" />
+                <circle cx="4" cy="13" r="1.25" /><circle cx="8" cy="13" r="1.25" />
+              </svg>
+            </div>
+            <span className="text-xs font-mono text-muted-foreground">{slot + 1}</span>
+            <span>{definition.icon}</span>
+            <span className="font-medium">{definition.name}</span>
             <button
               onClick={() => onToggleEffect(trackIndex, effect.id)}
               className={cn(
                 "w-12 h-6 rounded-full transition-colors relative",
                 effect.enabled ? "bg-primary" : "bg-muted"
               )}
+              title={effect.enabled ? 'Bypass' : 'Enable'}
             >
               <div className={cn(
                 "w-5 h-5 bg-white rounded-full shadow-sm transition-transform absolute top-0.5",
@@ -75,237 +192,44 @@ export default function EffectsPanel({
               )} />
             </button>
           </div>
-          <button
-            onClick={() => onRemoveEffect(trackIndex, effect.id)}
-            className="text-destructive hover:text-destructive/80 p-1 rounded-md hover:bg-destructive/10 transition-colors"
-            title="Remove effect"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onDuplicateEffect(trackIndex, effect, slot)}
+              className="text-muted-foreground hover:text-foreground p-1 rounded-md hover:bg-muted/50 transition-colors"
+              title="Duplicate effect"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+              </svg>
+            </button>
+            <button
+              onClick={() => onRemoveEffect(trackIndex, effect.id)}
+              className="text-destructive hover:text-destructive/80 p-1 rounded-md hover:bg-destructive/10 transition-colors"
+              title="Remove effect"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {effect.enabled && (
           <div className="space-y-3">
-            {renderEffectParameters(effect)}
+            {definition.params.map(param => (
+              <EffectParamControl
+                key={param.key}
+                param={param}
+                params={params}
+                onChange={(changes) => onUpdateEffect(trackIndex, effect.id, changes)}
+              />
+            ))}
           </div>
         )}
       </div>
     )
   }
 
-  const renderEffectParameters = (effect: TrackEffect) => {
-    const updateParam = (paramName: string, value: number) => {
-      onUpdateEffect(trackIndex, effect.id, { [paramName]: value })
-    }
-
-    switch (effect.type) {
-      case 'reverb': {
-        const reverbParams = effect.params as { roomSize: number; decay: number; wet: number }
-        return (
-          <>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Room Size: {(reverbParams.roomSize * 100).toFixed(0)}%
-              </label>
-              <input
-                type="range"
-                min="0"
-                max="1"
-                step="0.01"
-                value={reverbParams.roomSize}
-                onChange={(e) => updateParam('roomSize', parseFloat(e.target.value))}
-                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Decay: {reverbParams.decay.toFixed(1)}s
-              </label>
-              <input
-                type="range"
-                min="0.1"
-                max="10"
-                step="0.1"
-                value={reverbParams.decay}
-                onChange={(e) => updateParam('decay', parseFloat(e.target.value))}
-                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Wet: {(reverbParams.wet * 100).toFixed(0)}%
-              </label>
-              <input
-                type="range"
-                min="0"
-                max="1"
-                step="0.01"
-                value={reverbParams.wet}
-                onChange={(e) => updateParam('wet', parseFloat(e.target.value))}
-                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
-          </>
-        )
-      }
-
-      case 'delay': {
-        const delayParams = effect.params as { time: number; feedback: number; wet: number }
-        return (
-          <>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Time: {(delayParams.time * 1000).toFixed(0)}ms
-              </label>
-              <input
-                type="range"
-                min="0.01"
-                max="1"
-                step="0.01"
-                value={delayParams.time}
-                onChange={(e) => updateParam('time', parseFloat(e.target.value))}
-                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Feedback: {(delayParams.feedback * 100).toFixed(0)}%
-              </label>
-              <input
-                type="range"
-                min="0"
-                max="0.9"
-                step="0.01"
-                value={delayParams.feedback}
-                onChange={(e) => updateParam('feedback', parseFloat(e.target.value))}
-                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Wet: {(delayParams.wet * 100).toFixed(0)}%
-              </label>
-              <input
-                type="range"
-                min="0"
-                max="1"
-                step="0.01"
-                value={delayParams.wet}
-                onChange={(e) => updateParam('wet', parseFloat(e.target.value))}
-                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
-          </>
-        )
-      }
-
-      case 'distortion': {
-        const distortionParams = effect.params as { distortion: number; oversample: string; wet: number }
-        return (
-          <>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Distortion: {(distortionParams.distortion * 100).toFixed(0)}%
-              </label>
-              <input
-                type="range"
-                min="0"
-                max="1"
-                step="0.01"
-                value={distortionParams.distortion}
-                onChange={(e) => updateParam('distortion', parseFloat(e.target.value))}
-                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Oversample: {distortionParams.oversample}
-              </label>
-              <select
-                value={distortionParams.oversample}
-                onChange={(e) => updateParam('oversample', e.target.value as any)}
-                className="w-full p-2 bg-background border border-border rounded-lg"
-              >
-                <option value="none">None</option>
-                <option value="2x">2x</option>
-                <option value="4x">4x</option>
-              </select>
-            </div>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Wet: {(distortionParams.wet * 100).toFixed(0)}%
-              </label>
-              <input
-                type="range"
-                min="0"
-                max="1"
-                step="0.01"
-                value={distortionParams.wet}
-                onChange={(e) => updateParam('wet', parseFloat(e.target.value))}
-                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
-          </>
-        )
-      }
-
-      case 'filter': {
-        const filterParams = effect.params as { frequency: number; type: string; Q: number }
-        return (
-          <>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Frequency: {filterParams.frequency.toFixed(0)}Hz
-              </label>
-              <input
-                type="range"
-                min="20"
-                max="20000"
-                step="10"
-                value={filterParams.frequency}
-                onChange={(e) => updateParam('frequency', parseFloat(e.target.value))}
-                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Type: {filterParams.type}
-              </label>
-              <select
-                value={filterParams.type}
-                onChange={(e) => updateParam('type', e.target.value as any)}
-                className="w-full p-2 bg-background border border-border rounded-lg"
-              >
-                <option value="lowpass">Low Pass</option>
-                <option value="highpass">High Pass</option>
-                <option value="bandpass">Band Pass</option>
-              </select>
-            </div>
-            <div>
-              <label className="text-sm font-medium text-foreground block mb-2">
-                Q: {filterParams.Q.toFixed(1)}
-              </label>
-              <input
-                type="range"
-                min="0.1"
-                max="30"
-                step="0.1"
-                value={filterParams.Q}
-                onChange={(e) => updateParam('Q', parseFloat(e.target.value))}
-                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
-              />
-            </div>
-          </>
-        )
-      }
-
-      default:
-        return null
-    }
-  }
-
   return (
     <>
       {/* Backdrop */}
@@ -315,7 +239,7 @@ export default function EffectsPanel({
       />
       
       {/* Modal */}
-      <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-card border border-border rounded-xl shadow-2xl w-[500px] max-h-[700px] overflow-hidden z-50">
+      <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-card border border-border rounded-xl shadow-2xl w-[520px] max-h-[700px] overflow-hidden z-50">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-border">
           <h3 className="text-lg font-semibold text-foreground">
@@ -331,36 +255,101 @@ export default function EffectsPanel({
           </button>
         </div>
 
-        {/* Tabs */}
-        <div className="flex border-b border-border">
-          {EFFECT_TYPES.map((effectType) => (
+        {/* Content */}
+        <div className="p-6 max-h-[560px] overflow-y-auto space-y-4">
+          <PresetBrowser effects={effects} onApply={(next) => onSetEffects(trackIndex, next)} />
+
+          {/* Effects in signal order */}
+          {effects.length === 0 && !adding && (
+            <p className="text-sm text-muted-foreground text-center py-4">No effects on this track yet</p>
+          )}
+          {effects.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+              <span>In</span>
+              {effects.map(effect => (
+                <span key={effect.id} className="contents">
+                  <span>→</span>
+                  <span className={cn(
+                    "px-1.5 py-0.5 rounded-md border",
+                    effect.enabled ? "bg-primary/10 text-primary border-primary/40" : "border-border line-through"
+                  )}>
+                    {getEffectDefinition(effect.type).name}
+                  </span>
+                </span>
+              ))}
+              <span>→</span>
+              <span>Out</span>
+            </div>
+          )}
+          {effects.map(renderEffect)}
+
+          {adding ? (
+            <div className="grid grid-cols-3 gap-2">
+              {EFFECT_TYPES.map(type => {
+                const definition = getEffectDefinition(type)
+                return (
+                  <button
+                    key={type}
+                    onClick={() => handleAddEffect(type)}
+                    className="flex items-center gap-2 px-3 py-2 text-sm rounded-lg bg-background border border-border hover:bg-muted/30 transition-colors"
+                  >
+                    <span>{definition.icon}</span>
+                    {definition.name}
+                  </button>
+                )
+              })}
+            </div>
+          ) : (
             <button
-              key={effectType.type}
-              onClick={() => setActiveTab(effectType.type)}
-              className={cn(
-                "flex-1 px-4 py-3 text-sm font-medium transition-colors relative",
-                activeTab === effectType.type
-                  ? "text-primary bg-primary/5"
-                  : "text-muted-foreground hover:text-foreground hover:bg-muted/30"
-              )}
+              onClick={() => setAdding(true)}
+              className="w-full py-2 text-sm rounded-lg border border-dashed border-border text-muted-foreground hover:text-foreground hover:bg-muted/30 transition-colors"
             >
-              <div className="flex items-center justify-center gap-2">
-                <span>{effectType.icon}</span>
-                {effectType.name}
-              </div>
-              {activeTab === effectType.type && (
-                <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" />
-              )}
-              {getEffectOfType(effectType.type)?.enabled && (
-                <div className="absolute top-2 right-2 w-2 h-2 bg-primary rounded-full" />
-              )}
+              + Add Effect
             </button>
-          ))}
-        </div>
+          )}
 
-        {/* Content */}
-        <div className="p-6 max-h-[500px] overflow-y-auto">
-          {renderEffectControls(activeTab)}
+          {modulators && onModulatorsChange && (
+            <ModulationPanel modulators={modulators} effects={effects} onChange={onModulatorsChange} />
+          )}
+
+          {buses && sends && onSendChange && (
+            <div className="space-y-3 pt-4 border-t border-border">
+              <span className="font-medium">Sends</span>
+              {buses.map(bus => {
+                const send = getTrackSend(sends, bus.id)
+                return (
+                  <div key={bus.id}>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-medium text-foreground">
+                        {bus.name}: {Math.round(send.level * 100)}%
+                      </label>
+                      <button
+                        onClick={() => onSendChange(bus.id, { preFader: !send.preFader })}
+                        className={cn(
+                          "px-2 py-0.5 text-xs font-medium rounded-md border transition-colors",
+                          send.preFader
+                            ? "bg-primary/10 text-primary border-primary/40"
+                            : "bg-background text-muted-foreground border-border hover:text-foreground"
+                        )}
+                        title="Pre-fader sends ignore the track's volume fader"
+                      >
+                        {send.preFader ? 'Pre-fader' : 'Post-fader'}
+                      </button>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      value={send.level}
+                      onChange={(e) => onSendChange(bus.id, { level: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+                    />
+                  </div>
+                )
+              })}
+            </div>
+          )}
         </div>
       </div>
     </>
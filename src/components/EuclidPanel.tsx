@@ -0,0 +1,124 @@
+import { cn } from '@/lib/utils'
+import type { EuclidSettings } from '@/lib/euclid'
+import { euclideanRhythm } from '@/lib/euclid'
+import { MAX_STEPS } from '@/lib/pattern'
+
+interface EuclidPanelProps {
+  trackName: string
+  settings: EuclidSettings
+  length: number
+  onChange: (changes: Partial<EuclidSettings>) => void
+  onLengthChange: (length: number) => void
+  onDisable: () => void
+  onClose: () => void
+}
+
+// Size of the circular preview, in pixels
+const RING_SIZE = 120
+
+export default function EuclidPanel({
+  trackName,
+  settings,
+  length,
+  onChange,
+  onLengthChange,
+  onDisable,
+  onClose
+}: EuclidPanelProps) {
+  // Pulses beyond the track length are clamped when generating, so show them clamped too
+  const pulses = Math.min(settings.pulses, length)
+  const rhythm = euclideanRhythm(pulses, length, settings.rotation)
+  const radius = RING_SIZE / 2 - 8
+
+  return (
+    <div className="bg-card rounded-xl p-6 shadow-md border border-border/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-foreground">
+          Euclidean - {trackName} (E({pulses},{length}){settings.rotation > 0 ? ` +${settings.rotation}` : ''})
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onDisable}
+            className="px-3 py-1.5 text-sm rounded-lg bg-background border border-border hover:bg-muted/30 transition-colors"
+            title="Stop generating this track; the current steps are kept"
+          >
+            Turn Off
+          </button>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground p-1 rounded-md hover:bg-muted/50 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-8">
+        {/* Ring preview */}
+        <svg width={RING_SIZE} height={RING_SIZE} className="flex-shrink-0">
+          <circle cx={RING_SIZE / 2} cy={RING_SIZE / 2} r={radius} className="fill-none stroke-border" />
+          {rhythm.map((hit, i) => {
+            const angle = (i / rhythm.length) * Math.PI * 2 - Math.PI / 2
+            return (
+              <circle
+                key={i}
+                cx={RING_SIZE / 2 + Math.cos(angle) * radius}
+                cy={RING_SIZE / 2 + Math.sin(angle) * radius}
+                r={hit ? 5 : 3}
+                className={cn(hit ? "fill-primary" : "fill-muted-foreground/40")}
+              />
+            )
+          })}
+        </svg>
+
+        {/* Controls */}
+        <div className="flex-1 space-y-3">
+          <div>
+            <label className="text-sm font-medium text-foreground block mb-2">
+              Pulses: {pulses}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max={length}
+              step="1"
+              value={pulses}
+              onChange={(e) => onChange({ pulses: parseInt(e.target.value) })}
+              className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-foreground block mb-2">
+              Steps: {length}
+            </label>
+            <input
+              type="range"
+              min="1"
+              max={MAX_STEPS}
+              step="1"
+              value={length}
+              onChange={(e) => onLengthChange(parseInt(e.target.value))}
+              className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-foreground block mb-2">
+              Rotation: {settings.rotation}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max={Math.max(0, length - 1)}
+              step="1"
+              value={settings.rotation}
+              onChange={(e) => onChange({ rotation: parseInt(e.target.value) })}
+              className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
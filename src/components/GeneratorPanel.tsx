@@ -0,0 +1,138 @@
+import type { GeneratorTrackSettings, GeneratorStyle } from '@/lib/generator'
+import { GENERATOR_STYLES, MAX_MUTATE_AMOUNT, createSeed } from '@/lib/generator'
+
+interface GeneratorPanelProps {
+  trackNames: string[]
+  seed: string
+  trackSettings: GeneratorTrackSettings[]
+  mutateAmount: number
+  mutations: number
+  onSeedChange: (seed: string) => void
+  onTrackChange: (trackIndex: number, changes: Partial<GeneratorTrackSettings>) => void
+  onMutateAmountChange: (amount: number) => void
+  onGenerate: () => void
+  onMutate: () => void
+  onClose: () => void
+}
+
+export default function GeneratorPanel({
+  trackNames,
+  seed,
+  trackSettings,
+  mutateAmount,
+  mutations,
+  onSeedChange,
+  onTrackChange,
+  onMutateAmountChange,
+  onGenerate,
+  onMutate,
+  onClose
+}: GeneratorPanelProps) {
+  return (
+    <div className="bg-card rounded-xl p-6 shadow-md border border-border/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h2 className="text-sm font-semibold text-foreground">Generate</h2>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Seed
+            <input
+              type="text"
+              value={seed}
+              onChange={(e) => onSeedChange(e.target.value.trim())}
+              className="w-28 h-8 px-2 text-sm font-mono bg-background border border-border rounded-lg"
+              spellCheck={false}
+            />
+          </label>
+          <button
+            onClick={() => onSeedChange(createSeed())}
+            className="px-2 py-1.5 text-sm rounded-lg bg-background border border-border hover:bg-muted/30 transition-colors"
+            title="New random seed"
+          >
+            🎲
+          </button>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-muted-foreground hover:text-foreground p-1 rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Per-track density and style */}
+      <div className="grid grid-cols-[80px_1fr_48px_120px] items-center gap-x-3 gap-y-2">
+        {trackNames.map((name, trackIndex) => {
+          const track = trackSettings[trackIndex]
+          if (!track) return null
+          return (
+            <div key={trackIndex} className="contents">
+              <span className="text-sm font-medium text-foreground truncate">{name}</span>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                step="5"
+                value={Math.round(track.density * 100)}
+                onChange={(e) => onTrackChange(trackIndex, { density: parseInt(e.target.value) / 100 })}
+                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+                aria-label={`${name} density`}
+              />
+              <span className="text-xs font-mono text-muted-foreground text-right">
+                {Math.round(track.density * 100)}%
+              </span>
+              <select
+                value={track.style}
+                onChange={(e) => onTrackChange(trackIndex, { style: e.target.value as GeneratorStyle })}
+                className="h-8 px-2 text-sm bg-background border border-border rounded-lg"
+                aria-label={`${name} style`}
+              >
+                {GENERATOR_STYLES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-between gap-4 pt-2 border-t border-border/50">
+        <button
+          onClick={onGenerate}
+          disabled={!seed}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm disabled:opacity-50"
+          title="Replace the current pattern with one built from the seed"
+        >
+          Generate
+        </button>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Amount
+            <input
+              type="range"
+              min="1"
+              max={MAX_MUTATE_AMOUNT * 100}
+              step="1"
+              value={Math.round(mutateAmount * 100)}
+              onChange={(e) => onMutateAmountChange(parseInt(e.target.value) / 100)}
+              className="w-24 h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+            />
+            <span className="font-mono text-foreground w-10">{Math.round(mutateAmount * 100)}%</span>
+          </label>
+          <button
+            onClick={onMutate}
+            disabled={!seed}
+            className="px-4 py-2 text-sm rounded-lg bg-background border border-border hover:bg-muted/30 transition-colors disabled:opacity-50"
+            title="Randomly flip, shift or add a few steps"
+          >
+            Mutate
+          </button>
+          <span className="text-xs text-muted-foreground">
+            {mutations} {mutations === 1 ? 'mutation' : 'mutations'}
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+import { cn } from '@/lib/utils'
+import type { Track, TrackGroup } from '@/lib/tracks'
+import { getTrackName } from '@/lib/tracks'
+
+interface GroupsPanelProps {
+  groups: TrackGroup[]
+  tracks: Track[]
+  onAddGroup: () => void
+  onGroupBySound: () => void
+  onUpdateGroup: (groupId: string, changes: Partial<TrackGroup>) => void
+  onRemoveGroup: (groupId: string) => void
+  onAssignTrack: (trackIndex: number, groupId: string | null) => void
+  onClose: () => void
+}
+
+export default function GroupsPanel({
+  groups,
+  tracks,
+  onAddGroup,
+  onGroupBySound,
+  onUpdateGroup,
+  onRemoveGroup,
+  onAssignTrack,
+  onClose
+}: GroupsPanelProps) {
+  return (
+    <div className="bg-card rounded-xl p-6 shadow-md border border-border/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h2 className="text-sm font-semibold text-foreground">Track Groups</h2>
+          <button
+            onClick={onAddGroup}
+            className="px-3 py-1.5 text-sm rounded-lg bg-background border border-border hover:bg-muted/30 transition-colors"
+          >
+            New Group
+          </button>
+          <button
+            onClick={onGroupBySound}
+            disabled={tracks.every(track => track.groupId)}
+            className="px-3 py-1.5 text-sm rounded-lg bg-background border border-border hover:bg-muted/30 transition-colors disabled:opacity-50"
+            title="Put each ungrouped track into a group named after its sound"
+          >
+            Group by Sound
+          </button>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-muted-foreground hover:text-foreground p-1 rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Groups with their mute switch */}
+      {groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No groups yet. Groups mute several tracks at once.</p>
+      ) : (
+        <div className="space-y-2">
+          {groups.map(group => {
+            const members = tracks.filter(track => track.groupId === group.id).length
+            return (
+              <div key={group.id} className="flex items-center gap-3">
+                <button
+                  onClick={() => onUpdateGroup(group.id, { muted: !group.muted })}
+                  className={cn(
+                    "w-8 h-8 text-xs font-semibold rounded-md border transition-colors",
+                    group.muted
+                      ? "bg-destructive/10 text-destructive border-destructive/40"
+                      : "bg-background text-muted-foreground border-border hover:text-foreground"
+                  )}
+                  title={group.muted ? 'Unmute group' : 'Mute group'}
+                >
+                  M
+                </button>
+                <input
+                  type="text"
+                  value={group.name}
+                  onChange={(e) => onUpdateGroup(group.id, { name: e.target.value })}
+                  className="w-40 h-8 px-2 text-sm bg-background border border-border rounded-lg"
+                  aria-label="Group name"
+                />
+                <span className="text-xs text-muted-foreground flex-1">
+                  {members} {members === 1 ? 'track' : 'tracks'}
+                </span>
+                <button
+                  onClick={() => onRemoveGroup(group.id)}
+                  className="text-xs text-muted-foreground hover:text-destructive px-1.5"
+                >
+                  Remove
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Group membership per track */}
+      <div className="grid grid-cols-[120px_160px] items-center gap-x-3 gap-y-2 pt-2 border-t border-border/50">
+        {tracks.map((track, trackIndex) => (
+          <div key={track.id} className="contents">
+            <span className="text-sm font-medium text-foreground truncate">{getTrackName(track)}</span>
+            <select
+              value={track.groupId ?? ''}
+              onChange={(e) => onAssignTrack(trackIndex, e.target.value || null)}
+              className="h-8 px-2 text-sm bg-background border border-border rounded-lg"
+              aria-label={`${getTrackName(track)} group`}
+            >
+              <option value="">No group</option>
+              {groups.map(group => (
+                <option key={group.id} value={group.id}>{group.name || 'Untitled'}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
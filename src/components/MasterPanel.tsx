@@ -0,0 +1,191 @@
+import { cn } from '@/lib/utils'
+import type { MasterSettings, MasterLevels } from '@/lib/masterBus'
+import { MIN_EQ_GAIN, MAX_EQ_GAIN } from '@/lib/masterBus'
+import { MIN_VOLUME_DB, MAX_VOLUME_DB } from '@/lib/effectsEngine'
+
+interface MasterPanelProps {
+  settings: MasterSettings
+  levels: MasterLevels
+  onChange: (settings: MasterSettings) => void
+  onResetClip: () => void
+}
+
+interface MasterSliderProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}
+
+function MasterSlider({ label, value, min, max, step, onChange }: MasterSliderProps) {
+  return (
+    <div>
+      <label className="text-sm font-medium text-foreground block mb-2">{label}</label>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+      />
+    </div>
+  )
+}
+
+// Width of a dB level on the meter, 0-1
+function getMeterWidth(db: number): number {
+  return Math.min(1, Math.max(0, (db - MIN_VOLUME_DB) / (MAX_VOLUME_DB - MIN_VOLUME_DB)))
+}
+
+function formatGain(db: number): string {
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`
+}
+
+export default function MasterPanel({ settings, levels, onChange, onResetClip }: MasterPanelProps) {
+  const { eq, compressor, limiter } = settings
+
+  const renderToggle = (enabled: boolean, onToggle: () => void) => (
+    <button
+      onClick={onToggle}
+      className={cn(
+        "w-12 h-6 rounded-full transition-colors relative",
+        enabled ? "bg-primary" : "bg-muted"
+      )}
+    >
+      <div className={cn(
+        "w-5 h-5 bg-white rounded-full shadow-sm transition-transform absolute top-0.5",
+        enabled ? "translate-x-6" : "translate-x-0.5"
+      )} />
+    </button>
+  )
+
+  return (
+    <div className="bg-card rounded-xl p-6 shadow-md border border-border/50 space-y-4">
+      {/* Master volume, meter and clip light */}
+      <div className="flex items-center gap-4">
+        <h2 className="text-sm font-semibold text-foreground">Master</h2>
+        <input
+          type="range"
+          min={MIN_VOLUME_DB}
+          max={MAX_VOLUME_DB}
+          step="0.5"
+          value={settings.volume}
+          onChange={(e) => onChange({ ...settings, volume: parseFloat(e.target.value) })}
+          onDoubleClick={() => onChange({ ...settings, volume: 0 })}
+          className="w-40 h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+          title="Master volume (double-click for 0 dB)"
+          aria-label="Master volume"
+        />
+        <span className="text-xs font-mono text-muted-foreground w-16">
+          {settings.volume <= MIN_VOLUME_DB ? '-∞ dB' : formatGain(settings.volume)}
+        </span>
+        <div className="relative flex-1 h-2 bg-muted rounded-sm overflow-hidden">
+          <div
+            className="absolute top-0 bottom-0 left-0 bg-primary/70"
+            style={{ width: `${getMeterWidth(levels.rms) * 100}%` }}
+          />
+          <div
+            className={cn("absolute top-0 bottom-0 w-0.5", levels.peak >= 0 ? "bg-destructive" : "bg-primary")}
+            style={{ left: `${getMeterWidth(levels.peak) * 100}%` }}
+          />
+        </div>
+        <button
+          onClick={onResetClip}
+          className={cn(
+            "px-2 py-1 text-xs font-semibold rounded-md border transition-colors",
+            levels.clipped
+              ? "bg-destructive text-destructive-foreground border-destructive"
+              : "bg-background text-muted-foreground border-border"
+          )}
+          title={levels.clipped ? 'The master output clipped; click to reset' : 'Lights when the master output clips'}
+        >
+          CLIP
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-6 pt-2 border-t border-border/50">
+        {/* 3-band EQ */}
+        <div className="space-y-3">
+          <span className="font-medium">EQ</span>
+          {(['low', 'mid', 'high'] as const).map(band => (
+            <MasterSlider
+              key={band}
+              label={`${band.charAt(0).toUpperCase() + band.slice(1)}: ${formatGain(eq[band])}`}
+              value={eq[band]}
+              min={MIN_EQ_GAIN}
+              max={MAX_EQ_GAIN}
+              step={0.5}
+              onChange={(value) => onChange({ ...settings, eq: { ...eq, [band]: value } })}
+            />
+          ))}
+        </div>
+
+        {/* Glue compressor */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">Compressor</span>
+            {renderToggle(compressor.enabled, () => onChange({ ...settings, compressor: { ...compressor, enabled: !compressor.enabled } }))}
+          </div>
+          {compressor.enabled && (
+            <>
+              <MasterSlider
+                label={`Threshold: ${compressor.threshold.toFixed(0)} dB`}
+                value={compressor.threshold}
+                min={-40}
+                max={0}
+                step={1}
+                onChange={(threshold) => onChange({ ...settings, compressor: { ...compressor, threshold } })}
+              />
+              <MasterSlider
+                label={`Ratio: ${compressor.ratio.toFixed(1)}:1`}
+                value={compressor.ratio}
+                min={1}
+                max={20}
+                step={0.5}
+                onChange={(ratio) => onChange({ ...settings, compressor: { ...compressor, ratio } })}
+              />
+              <MasterSlider
+                label={`Attack: ${(compressor.attack * 1000).toFixed(0)} ms`}
+                value={compressor.attack}
+                min={0.001}
+                max={0.1}
+                step={0.001}
+                onChange={(attack) => onChange({ ...settings, compressor: { ...compressor, attack } })}
+              />
+              <MasterSlider
+                label={`Release: ${(compressor.release * 1000).toFixed(0)} ms`}
+                value={compressor.release}
+                min={0.05}
+                max={1}
+                step={0.01}
+                onChange={(release) => onChange({ ...settings, compressor: { ...compressor, release } })}
+              />
+            </>
+          )}
+        </div>
+
+        {/* Brickwall limiter */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">Limiter</span>
+            {renderToggle(limiter.enabled, () => onChange({ ...settings, limiter: { ...limiter, enabled: !limiter.enabled } }))}
+          </div>
+          {limiter.enabled && (
+            <MasterSlider
+              label={`Ceiling: ${limiter.threshold.toFixed(1)} dB`}
+              value={limiter.threshold}
+              min={-12}
+              max={0}
+              step={0.1}
+              onChange={(threshold) => onChange({ ...settings, limiter: { ...limiter, threshold } })}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+import type { MouseEvent as ReactMouseEvent } from 'react'
+import { cn } from '@/lib/utils'
+import type { Track, TrackId } from '@/lib/tracks'
+import { getTrackName } from '@/lib/tracks'
+import type { TrackLevels } from '@/lib/effectsEngine'
+import { MIN_VOLUME_DB, MAX_VOLUME_DB } from '@/lib/effectsEngine'
+import type { AuxBus, TrackSend } from '@/lib/buses'
+import { MIN_BUSES, MAX_BUSES, getTrackSend } from '@/lib/buses'
+
+interface MixerPanelProps {
+  tracks: Track[]
+  buses: AuxBus[]
+  levels: Record<TrackId, TrackLevels> // Tracks and buses, by chain id
+  onVolumeChange: (trackIndex: number, volume: number) => void
+  onPanChange: (trackIndex: number, pan: number) => void
+  onToggleMute: (trackIndex: number) => void
+  onSolo: (event: ReactMouseEvent, trackIndex: number) => void
+  onSendChange: (trackIndex: number, busId: string, changes: Partial<TrackSend>) => void
+  onBusChange: (busIndex: number, changes: Partial<AuxBus>) => void
+  onEditBusEffects: (busIndex: number) => void
+  onAddBus: () => void
+  onRemoveBus: (busIndex: number) => void
+  onClose: () => void
+}
+
+// Height of a dB level on the meter, 0-1
+function getMeterHeight(db: number): number {
+  return Math.min(1, Math.max(0, (db - MIN_VOLUME_DB) / (MAX_VOLUME_DB - MIN_VOLUME_DB)))
+}
+
+function formatVolume(volume: number): string {
+  if (volume <= MIN_VOLUME_DB) return '-∞'
+  return `${volume > 0 ? '+' : ''}${volume.toFixed(1)}`
+}
+
+function formatPan(pan: number): string {
+  const amount = Math.round(Math.abs(pan) * 100)
+  if (amount === 0) return 'C'
+  return `${pan < 0 ? 'L' : 'R'}${amount}`
+}
+
+const SILENCE: TrackLevels = { peak: -Infinity, rms: -Infinity }
+
+interface ChannelFaderProps {
+  name: string
+  volume: number
+  level: TrackLevels
+  onChange: (volume: number) => void
+}
+
+// Vertical meter with an RMS fill and a peak line, next to a volume fader
+function ChannelFader({ name, volume, level, onChange }: ChannelFaderProps) {
+  return (
+    <div className="flex items-end gap-2 h-32">
+      <div className="relative w-2 h-full bg-muted rounded-sm overflow-hidden">
+        <div
+          className="absolute bottom-0 left-0 right-0 bg-primary/70"
+          style={{ height: `${getMeterHeight(level.rms) * 100}%` }}
+        />
+        <div
+          className={cn("absolute left-0 right-0 h-0.5", level.peak >= 0 ? "bg-destructive" : "bg-primary")}
+          style={{ bottom: `${getMeterHeight(level.peak) * 100}%` }}
+        />
+      </div>
+      <input
+        type="range"
+        min={MIN_VOLUME_DB}
+        max={MAX_VOLUME_DB}
+        step="0.5"
+        value={volume}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        onDoubleClick={() => onChange(0)}
+        className="h-full w-2 bg-muted rounded-lg appearance-none cursor-pointer slider [writing-mode:vertical-lr] [direction:rtl]"
+        title="Volume (double-click for 0 dB)"
+        aria-label={`${name} volume`}
+      />
+    </div>
+  )
+}
+
+export default function MixerPanel({
+  tracks,
+  buses,
+  levels,
+  onVolumeChange,
+  onPanChange,
+  onToggleMute,
+  onSolo,
+  onSendChange,
+  onBusChange,
+  onEditBusEffects,
+  onAddBus,
+  onRemoveBus,
+  onClose
+}: MixerPanelProps) {
+  return (
+    <div className="bg-card rounded-xl p-6 shadow-md border border-border/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-foreground">Mixer</h2>
+        <button
+          onClick={onClose}
+          className="text-muted-foreground hover:text-foreground p-1 rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Channel strips */}
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {tracks.map((track, trackIndex) => {
+          const name = getTrackName(track)
+          const level = levels[track.id] ?? SILENCE
+          return (
+            <div key={track.id} className="flex flex-col items-center gap-2 w-20 flex-shrink-0 p-2 rounded-lg bg-muted/30 border border-border/50">
+              <span className="text-xs font-medium text-foreground truncate w-full text-center" title={name}>{name}</span>
+
+              {/* Clip indicator */}
+              <div
+                className={cn("w-full h-1 rounded-full", level.peak >= 0 ? "bg-destructive" : "bg-muted")}
+                title="Lights when the channel peaks at 0 dB or above"
+              />
+
+              <ChannelFader
+                name={name}
+                volume={track.volume}
+                level={level}
+                onChange={(volume) => onVolumeChange(trackIndex, volume)}
+              />
+              <span className="text-xs font-mono text-muted-foreground">{formatVolume(track.volume)} dB</span>
+
+              <input
+                type="range"
+                min="-100"
+                max="100"
+                step="1"
+                value={Math.round(track.pan * 100)}
+                onChange={(e) => onPanChange(trackIndex, parseInt(e.target.value) / 100)}
+                onDoubleClick={() => onPanChange(trackIndex, 0)}
+                className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+                title="Pan (double-click to center)"
+                aria-label={`${name} pan`}
+              />
+              <span className="text-xs font-mono text-muted-foreground">{formatPan(track.pan)}</span>
+
+              <div className="flex gap-1">
+                <button
+                  onClick={() => onToggleMute(trackIndex)}
+                  className={cn(
+                    "w-6 h-6 text-xs font-semibold rounded-md border transition-colors",
+                    track.muted
+                      ? "bg-destructive/10 text-destructive border-destructive/40"
+                      : "bg-background text-muted-foreground border-border hover:text-foreground"
+                  )}
+                  title="Mute"
+                >
+                  M
+                </button>
+                <button
+                  onClick={(e) => onSolo(e, trackIndex)}
+                  className={cn(
+                    "w-6 h-6 text-xs font-semibold rounded-md border transition-colors",
+                    track.solo
+                      ? "bg-primary/10 text-primary border-primary/40"
+                      : "bg-background text-muted-foreground border-border hover:text-foreground"
+                  )}
+                  title="Solo (Ctrl/Cmd+click to solo only this track)"
+                >
+                  S
+                </button>
+              </div>
+
+              {/* Sends into each aux bus */}
+              <div className="w-full space-y-1.5 pt-2 border-t border-border/50">
+                {buses.map(bus => {
+                  const send = getTrackSend(track.sends, bus.id)
+                  return (
+                    <div key={bus.id}>
+                      <div className="flex items-center justify-between gap-1">
+                        <span className="text-[10px] text-muted-foreground truncate" title={`Send to ${bus.name}`}>{bus.name}</span>
+                        <button
+                          onClick={() => onSendChange(trackIndex, bus.id, { preFader: !send.preFader })}
+                          className={cn(
+                            "text-[10px] font-semibold px-1 rounded transition-colors",
+                            send.preFader ? "bg-primary/10 text-primary" : "text-muted-foreground hover:text-foreground"
+                          )}
+                          title={send.preFader ? 'Pre-fader send' : 'Post-fader send (click for pre-fader)'}
+                        >
+                          PRE
+                        </button>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="100"
+                        step="1"
+                        value={Math.round(send.level * 100)}
+                        onChange={(e) => onSendChange(trackIndex, bus.id, { level: parseInt(e.target.value) / 100 })}
+                        className="w-full h-1.5 bg-muted rounded-lg appearance-none cursor-pointer slider"
+                        aria-label={`${name} send to ${bus.name}`}
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )
+        })}
+
+        {/* Aux bus returns */}
+        <div className="w-px bg-border mx-1 flex-shrink-0" />
+        {buses.map((bus, busIndex) => (
+          <div key={bus.id} className="flex flex-col items-center gap-2 w-20 flex-shrink-0 p-2 rounded-lg bg-primary/5 border border-primary/20">
+            <input
+              type="text"
+              value={bus.name}
+              onChange={(e) => onBusChange(busIndex, { name: e.target.value })}
+              className="w-full h-6 px-1 text-xs font-medium text-center bg-transparent border border-transparent hover:border-border focus:border-border rounded"
+              aria-label="Bus name"
+            />
+            <ChannelFader
+              name={bus.name}
+              volume={bus.volume}
+              level={levels[bus.id] ?? SILENCE}
+              onChange={(volume) => onBusChange(busIndex, { volume })}
+            />
+            <span className="text-xs font-mono text-muted-foreground">{formatVolume(bus.volume)} dB</span>
+            <button
+              onClick={() => onEditBusEffects(busIndex)}
+              className={cn(
+                "w-full py-1 text-xs font-medium rounded-md border transition-colors",
+                bus.effects.some(effect => effect.enabled)
+                  ? "bg-primary/10 text-primary border-primary/40"
+                  : "bg-background text-muted-foreground border-border hover:text-foreground"
+              )}
+            >
+              Effects
+            </button>
+            <button
+              onClick={() => onRemoveBus(busIndex)}
+              disabled={buses.length <= MIN_BUSES}
+              className="text-xs text-muted-foreground hover:text-destructive disabled:opacity-40 disabled:hover:text-muted-foreground"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {buses.length < MAX_BUSES && (
+          <button
+            onClick={onAddBus}
+            className="w-20 flex-shrink-0 rounded-lg border border-dashed border-border text-sm text-muted-foreground hover:text-foreground hover:bg-muted/30 transition-colors"
+          >
+            + Bus
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
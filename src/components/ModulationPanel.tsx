@@ -0,0 +1,249 @@
+import type { TrackEffect } from '@/lib/effectsEngine'
+import { getEffectDefinition, getModulatableParams, getFixedParams } from '@/lib/effectRegistry'
+import type { Modulator, ModulatorKind, ModulationTarget, LfoShape } from '@/lib/modulation'
+import { LFO_SHAPES, MAX_MODULATORS, MIN_LFO_RATE, MAX_LFO_RATE, MIN_ENVELOPE_TIME, MAX_ENVELOPE_TIME, createModulator } from '@/lib/modulation'
+import type { NoteValue } from '@/lib/meter'
+import { NOTE_VALUES } from '@/lib/meter'
+
+interface ModulationPanelProps {
+  modulators: Modulator[]
+  effects: TrackEffect[]
+  onChange: (modulators: Modulator[]) => void
+}
+
+interface ModSliderProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}
+
+function ModSlider({ label, value, min, max, step, onChange }: ModSliderProps) {
+  return (
+    <div>
+      <label className="text-sm font-medium text-foreground block mb-2">{label}</label>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+      />
+    </div>
+  )
+}
+
+const formatTime = (seconds: number) => seconds < 1 ? `${(seconds * 1000).toFixed(0)}ms` : `${seconds.toFixed(2)}s`
+
+const getTargetKey = (target: Pick<ModulationTarget, 'effectId' | 'param'>) => `${target.effectId}:${target.param}`
+
+export default function ModulationPanel({ modulators, effects, onChange }: ModulationPanelProps) {
+  // Every modulatable parameter of the track's effects, in signal order
+  const options = effects.flatMap((effect, slot) => {
+    const name = getEffectDefinition(effect.type).name
+    return getModulatableParams(effect.type).map(param => ({
+      key: getTargetKey({ effectId: effect.id, param: param.key }),
+      effectId: effect.id,
+      param: param.key,
+      label: `${slot + 1}. ${name} ${param.label}`
+    }))
+  })
+
+  // Numeric parameters modulators can't drive, listed so their absence from the targets is explained
+  const fixedLabels = effects.flatMap((effect, slot) => {
+    const name = getEffectDefinition(effect.type).name
+    return getFixedParams(effect.type).map(param => `${slot + 1}. ${name} ${param.label}`)
+  })
+
+  // A parameter follows one modulator at a time
+  const drivenKeys = new Set(modulators.flatMap(modulator => modulator.targets.map(getTargetKey)))
+
+  const updateModulator = (id: string, changes: Partial<Modulator>) => {
+    onChange(modulators.map(modulator => modulator.id === id ? { ...modulator, ...changes } : modulator))
+  }
+
+  const addModulator = (kind: ModulatorKind) => {
+    if (modulators.length >= MAX_MODULATORS) return
+    onChange([...modulators, createModulator(kind)])
+  }
+
+  const addTarget = (modulator: Modulator) => {
+    const option = options.find(option => !drivenKeys.has(option.key))
+    if (!option) return
+    updateModulator(modulator.id, { targets: [...modulator.targets, { effectId: option.effectId, param: option.param, depth: 0.5 }] })
+  }
+
+  const updateTarget = (modulator: Modulator, index: number, changes: Partial<ModulationTarget>) => {
+    updateModulator(modulator.id, {
+      targets: modulator.targets.map((target, targetIndex) => targetIndex === index ? { ...target, ...changes } : target)
+    })
+  }
+
+  const removeTarget = (modulator: Modulator, index: number) => {
+    updateModulator(modulator.id, { targets: modulator.targets.filter((_, targetIndex) => targetIndex !== index) })
+  }
+
+  const renderModulator = (modulator: Modulator, index: number) => (
+    <div key={modulator.id} className="space-y-3 p-4 rounded-lg border border-border/50 bg-muted/20">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{modulator.kind === 'lfo' ? 'LFO' : 'Envelope'} {index + 1}</span>
+        <button
+          onClick={() => onChange(modulators.filter(other => other.id !== modulator.id))}
+          className="text-xs text-muted-foreground hover:text-destructive px-1.5"
+        >
+          Remove
+        </button>
+      </div>
+
+      {modulator.kind === 'lfo' ? (
+        <>
+          <div className="flex items-center gap-2">
+            <select
+              value={modulator.shape}
+              onChange={(e) => updateModulator(modulator.id, { shape: e.target.value as LfoShape })}
+              className="flex-1 h-8 px-2 text-sm bg-background border border-border rounded-lg"
+              aria-label="Shape"
+            >
+              {LFO_SHAPES.map(shape => (
+                <option key={shape.value} value={shape.value}>{shape.label}</option>
+              ))}
+            </select>
+            <select
+              value={modulator.sync ?? ''}
+              onChange={(e) => updateModulator(modulator.id, { sync: e.target.value ? e.target.value as NoteValue : null })}
+              className="h-8 px-2 text-sm bg-background border border-border rounded-lg"
+              title="Follow the tempo with a note value per cycle"
+            >
+              <option value="">Free</option>
+              {NOTE_VALUES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          {!modulator.sync && (
+            <ModSlider
+              label={`Rate: ${modulator.rate.toFixed(2)}Hz`}
+              value={modulator.rate}
+              min={MIN_LFO_RATE}
+              max={MAX_LFO_RATE}
+              step={0.05}
+              onChange={(rate) => updateModulator(modulator.id, { rate })}
+            />
+          )}
+        </>
+      ) : (
+        <>
+          <ModSlider
+            label={`Attack: ${formatTime(modulator.attack)}`}
+            value={modulator.attack}
+            min={MIN_ENVELOPE_TIME}
+            max={MAX_ENVELOPE_TIME}
+            step={0.001}
+            onChange={(attack) => updateModulator(modulator.id, { attack })}
+          />
+          <ModSlider
+            label={`Decay: ${formatTime(modulator.decay)}`}
+            value={modulator.decay}
+            min={MIN_ENVELOPE_TIME}
+            max={MAX_ENVELOPE_TIME}
+            step={0.001}
+            onChange={(decay) => updateModulator(modulator.id, { decay })}
+          />
+        </>
+      )}
+
+      {/* Targets; ones on removed effects stay dormant so an undo brings them back */}
+      <div className="space-y-2 pt-2 border-t border-border/50">
+        {modulator.targets.map((target, targetIndex) => {
+          const key = getTargetKey(target)
+          if (!options.some(option => option.key === key)) return null
+          return (
+            <div key={key} className="flex items-center gap-2">
+              <select
+                value={key}
+                onChange={(e) => {
+                  const option = options.find(option => option.key === e.target.value)
+                  if (option) updateTarget(modulator, targetIndex, { effectId: option.effectId, param: option.param })
+                }}
+                className="w-44 h-8 px-2 text-sm bg-background border border-border rounded-lg"
+                aria-label="Target parameter"
+              >
+                {options.map(option => (
+                  <option key={option.key} value={option.key} disabled={option.key !== key && drivenKeys.has(option.key)}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="range"
+                min="-100"
+                max="100"
+                step="1"
+                value={Math.round(target.depth * 100)}
+                onChange={(e) => updateTarget(modulator, targetIndex, { depth: parseInt(e.target.value) / 100 })}
+                onDoubleClick={() => updateTarget(modulator, targetIndex, { depth: 0 })}
+                className="flex-1 h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+                title="Depth (double-click for none)"
+                aria-label="Depth"
+              />
+              <span className="text-xs font-mono text-muted-foreground w-10 text-right">
+                {target.depth > 0 ? '+' : ''}{Math.round(target.depth * 100)}%
+              </span>
+              <button
+                onClick={() => removeTarget(modulator, targetIndex)}
+                className="text-muted-foreground hover:text-destructive p-1"
+                title="Remove target"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          )
+        })}
+        <button
+          onClick={() => addTarget(modulator)}
+          disabled={options.every(option => drivenKeys.has(option.key))}
+          className="text-xs text-muted-foreground hover:text-foreground disabled:opacity-40 disabled:hover:text-muted-foreground"
+        >
+          + Target
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-border">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Modulation</span>
+        <div className="flex gap-2">
+          {(['lfo', 'envelope'] as const).map(kind => (
+            <button
+              key={kind}
+              onClick={() => addModulator(kind)}
+              disabled={modulators.length >= MAX_MODULATORS}
+              className="px-3 py-1.5 text-sm rounded-lg bg-background border border-border hover:bg-muted/30 transition-colors disabled:opacity-50"
+              title={kind === 'lfo' ? 'Cycle parameters continuously' : 'Move parameters on every hit of this track'}
+            >
+              + {kind === 'lfo' ? 'LFO' : 'Envelope'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {modulators.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No modulators. LFOs and envelopes move effect parameters without touching the knobs.</p>
+      ) : (
+        modulators.map(renderModulator)
+      )}
+      {fixedLabels.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not modulatable: {fixedLabels.join(', ')}. Parameter locks can still vary the lockable ones per step.
+        </p>
+      )}
+    </div>
+  )
+}
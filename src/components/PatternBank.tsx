@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+import type { PatternBank as PatternBankData, PatternSlotId } from '@/lib/patternBank'
+import { BANKS, SLOTS_PER_BANK, getSlotId, getSlotBank, isPatternEmpty } from '@/lib/patternBank'
+
+interface PatternBankProps {
+  bank: PatternBankData
+  currentSlot: PatternSlotId
+  queuedSlot: PatternSlotId | null
+  isPlaying: boolean
+  followingSong: boolean
+  onSelectSlot: (slot: PatternSlotId) => void
+}
+
+export default function PatternBank({
+  bank,
+  currentSlot,
+  queuedSlot,
+  isPlaying,
+  followingSong,
+  onSelectSlot
+}: PatternBankProps) {
+  const [activeBank, setActiveBank] = useState(getSlotBank(currentSlot))
+
+  return (
+    <div className="bg-card rounded-xl p-6 shadow-md border border-border/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-foreground">Patterns</h2>
+        <span className="text-xs text-muted-foreground">
+          {followingSong
+            ? 'Following the song arrangement'
+            : isPlaying ? 'Switches on the next bar' : 'Click a slot to edit it'}
+        </span>
+      </div>
+
+      {/* Bank selector */}
+      <div className="flex gap-1">
+        {BANKS.map(bankId => (
+          <button
+            key={bankId}
+            onClick={() => setActiveBank(bankId)}
+            className={cn(
+              "flex-1 py-1.5 rounded-md text-sm font-medium transition-colors relative",
+              activeBank === bankId
+                ? "bg-primary/10 text-primary"
+                : "text-muted-foreground hover:text-foreground hover:bg-muted/30"
+            )}
+          >
+            {bankId}
+            {getSlotBank(currentSlot) === bankId && (
+              <div className="absolute top-1 right-1 w-1.5 h-1.5 bg-primary rounded-full" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Slots */}
+      <div className="grid grid-cols-16 gap-1">
+        {Array.from({ length: SLOTS_PER_BANK }, (_, index) => {
+          const slot = getSlotId(activeBank, index)
+          const isCurrent = slot === currentSlot
+          const isQueued = slot === queuedSlot
+
+          return (
+            <button
+              key={slot}
+              onClick={() => onSelectSlot(slot)}
+              disabled={followingSong}
+              className={cn(
+                "h-8 rounded-md text-xs font-medium transition-colors border",
+                isCurrent
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : isPatternEmpty(bank[slot])
+                    ? "bg-muted/10 text-muted-foreground border-border/50 hover:bg-muted/30"
+                    : "bg-primary/10 text-primary border-primary/30 hover:bg-primary/20",
+                isQueued && "animate-pulse ring-2 ring-primary ring-offset-1 ring-offset-background"
+              )}
+              title={isQueued ? `${slot} (queued)` : slot}
+            >
+              {slot}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
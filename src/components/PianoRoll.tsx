@@ -0,0 +1,112 @@
+import type { ReactNode } from 'react'
+import { cn } from '@/lib/utils'
+import type { Step } from '@/lib/pattern'
+import { MIN_TUNING, MAX_TUNING, getNoteName, isBlackKey } from '@/lib/pattern'
+
+interface PianoRollProps {
+  trackName: string
+  steps: Step[]
+  tuning: number
+  playheadStep: number | null
+  renderStepSpacer: (stepIndex: number) => ReactNode
+  onSetNote: (stepIndex: number, pitch: number | null) => void
+  onTuningChange: (tuning: number) => void
+  onPreview: (pitch: number) => void
+  onClose: () => void
+}
+
+// Two octaves around the sample's own pitch
+const HIGHEST_NOTE = 12
+const LOWEST_NOTE = -12
+const NOTES = Array.from({ length: HIGHEST_NOTE - LOWEST_NOTE + 1 }, (_, i) => HIGHEST_NOTE - i)
+
+export default function PianoRoll({
+  trackName,
+  steps,
+  tuning,
+  playheadStep,
+  renderStepSpacer,
+  onSetNote,
+  onTuningChange,
+  onPreview,
+  onClose
+}: PianoRollProps) {
+  return (
+    <div className="bg-card rounded-xl p-6 shadow-md border border-border/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <h2 className="text-sm font-semibold text-foreground">Chromatic - {trackName}</h2>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            Tuning
+            <input
+              type="range"
+              min={MIN_TUNING}
+              max={MAX_TUNING}
+              step="1"
+              value={tuning}
+              onChange={(e) => onTuningChange(parseInt(e.target.value))}
+              className="w-24 h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+            />
+            <span className="font-mono text-foreground w-10">
+              {tuning > 0 ? `+${tuning}` : tuning} st
+            </span>
+          </label>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-muted-foreground hover:text-foreground p-1 rounded-md hover:bg-muted/50 transition-colors"
+          title="Back to the step grid"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="w-fit mx-auto space-y-px">
+          {NOTES.map(note => (
+            <div key={note} className="flex gap-0.5">
+              {/* Key */}
+              <button
+                onClick={() => onPreview(note)}
+                className={cn(
+                  "w-[72px] h-5 px-2 text-[10px] font-medium text-left rounded-sm flex-shrink-0 transition-colors",
+                  isBlackKey(note)
+                    ? "bg-foreground/80 text-background hover:bg-foreground/70"
+                    : "bg-background text-foreground border border-border/50 hover:bg-muted/40",
+                  note === 0 && "ring-1 ring-primary"
+                )}
+              >
+                {getNoteName(note)}
+              </button>
+              <div className="w-1"></div>
+
+              {/* Cells */}
+              {steps.map((step, stepIndex) => {
+                const isNote = step.active && step.pitch === note
+                return (
+                  <div key={stepIndex} className="flex">
+                    {renderStepSpacer(stepIndex)}
+                    <button
+                      onClick={() => onSetNote(stepIndex, isNote ? null : note)}
+                      className={cn(
+                        "h-5 w-7 rounded-sm transition-colors flex-shrink-0",
+                        isNote
+                          ? "bg-primary hover:bg-primary/90"
+                          : isBlackKey(note) ? "bg-muted/30 hover:bg-muted/50" : "bg-muted/10 hover:bg-muted/40",
+                        playheadStep === stepIndex && !isNote && "bg-muted/60"
+                      )}
+                      style={isNote ? { opacity: 0.3 + step.velocity * 0.7 } : undefined}
+                      aria-label={`${getNoteName(note)} at step ${stepIndex + 1}`}
+                    />
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+import { useState, useRef } from 'react'
+import type { ChangeEvent } from 'react'
+import type { TrackEffect } from '@/lib/effectsEngine'
+import { getEffectDefinition } from '@/lib/effectRegistry'
+import type { EffectPreset } from '@/lib/effectPresets'
+import { FACTORY_PRESETS, createPreset, instantiatePreset, loadUserPresets, saveUserPresets, exportPresets, parsePresets } from '@/lib/effectPresets'
+
+interface PresetBrowserProps {
+  effects: TrackEffect[]
+  onApply: (effects: TrackEffect[]) => void // The track's whole new effect list
+}
+
+// What a new preset is saved from: the whole chain, or one slot by effect id
+const WHOLE_CHAIN = ''
+
+export default function PresetBrowser({ effects, onApply }: PresetBrowserProps) {
+  const [userPresets, setUserPresets] = useState<EffectPreset[]>(loadUserPresets)
+  const [selectedId, setSelectedId] = useState(FACTORY_PRESETS[0].id)
+  const [name, setName] = useState('')
+  const [source, setSource] = useState(WHOLE_CHAIN)
+  const [message, setMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const presets = [...FACTORY_PRESETS, ...userPresets]
+  const selected = presets.find(preset => preset.id === selectedId)
+
+  const updateUserPresets = (next: EffectPreset[]) => {
+    setUserPresets(next)
+    saveUserPresets(next)
+  }
+
+  // Chains replace the current effects; single effects are added as a new slot
+  const applyPreset = () => {
+    if (!selected) return
+    const presetEffects = instantiatePreset(selected)
+    onApply(selected.kind === 'chain' ? presetEffects : [...effects, ...presetEffects])
+    setMessage(null)
+  }
+
+  const savePreset = () => {
+    const effect = effects.find(effect => effect.id === source)
+    const preset = effect
+      ? createPreset(name.trim() || getEffectDefinition(effect.type).name, 'effect', [effect])
+      : createPreset(name.trim() || 'Untitled Chain', 'chain', effects)
+    updateUserPresets([...userPresets, preset])
+    setSelectedId(preset.id)
+    setName('')
+    setMessage(`Saved "${preset.name}"`)
+  }
+
+  const deletePreset = () => {
+    if (!selected || selected.factory) return
+    updateUserPresets(userPresets.filter(preset => preset.id !== selected.id))
+    setSelectedId(FACTORY_PRESETS[0].id)
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(userPresets)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'effect-presets.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = '' // Allow importing the same file again
+    if (!file) return
+
+    try {
+      const imported = parsePresets(await file.text())
+      updateUserPresets([...userPresets, ...imported])
+      setMessage(`Imported ${imported.length} ${imported.length === 1 ? 'preset' : 'presets'}`)
+    } catch (error) {
+      setMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const renderOptions = (list: EffectPreset[]) => list.map(preset => (
+    <option key={preset.id} value={preset.id}>
+      {preset.name}{preset.kind === 'effect' ? ` (${getEffectDefinition(preset.effects[0].type).name})` : ''}
+    </option>
+  ))
+
+  return (
+    <div className="space-y-3 pb-4 border-b border-border">
+      <span className="font-medium">Presets</span>
+
+      {/* Browse and apply */}
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="flex-1 h-8 px-2 text-sm bg-background border border-border rounded-lg"
+          aria-label="Preset"
+        >
+          <optgroup label="Factory">{renderOptions(FACTORY_PRESETS)}</optgroup>
+          {userPresets.length > 0 && <optgroup label="Saved">{renderOptions(userPresets)}</optgroup>}
+        </select>
+        <button
+          onClick={applyPreset}
+          disabled={!selected}
+          className="px-3 py-1.5 text-sm rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          title={selected?.kind === 'effect' ? 'Add this effect as a new slot' : 'Replace the effects with this chain'}
+        >
+          {selected?.kind === 'effect' ? 'Add' : 'Load'}
+        </button>
+        <button
+          onClick={deletePreset}
+          disabled={!selected || selected.factory}
+          className="text-xs text-muted-foreground hover:text-destructive disabled:opacity-40 disabled:hover:text-muted-foreground px-1.5"
+        >
+          Delete
+        </button>
+      </div>
+      {selected && (
+        <p className="text-xs text-muted-foreground">
+          {selected.effects.map(effect => getEffectDefinition(effect.type).name).join(' → ')}
+        </p>
+      )}
+
+      {/* Save the chain or one slot */}
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Preset name"
+          className="flex-1 h-8 px-2 text-sm bg-background border border-border rounded-lg"
+          aria-label="Preset name"
+        />
+        <select
+          value={effects.some(effect => effect.id === source) ? source : WHOLE_CHAIN}
+          onChange={(e) => setSource(e.target.value)}
+          className="h-8 px-2 text-sm bg-background border border-border rounded-lg"
+          aria-label="Save from"
+        >
+          <option value={WHOLE_CHAIN}>Whole chain</option>
+          {effects.map((effect, slot) => (
+            <option key={effect.id} value={effect.id}>{slot + 1}. {getEffectDefinition(effect.type).name}</option>
+          ))}
+        </select>
+        <button
+          onClick={savePreset}
+          disabled={effects.length === 0}
+          className="px-3 py-1.5 text-sm rounded-lg bg-background border border-border hover:bg-muted/30 transition-colors disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+
+      {/* Share saved presets as JSON */}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleExport}
+          disabled={userPresets.length === 0}
+          className="px-3 py-1.5 text-sm rounded-lg bg-background border border-border hover:bg-muted/30 transition-colors disabled:opacity-50"
+          title="Download saved presets as a JSON file"
+        >
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 text-sm rounded-lg bg-background border border-border hover:bg-muted/30 transition-colors"
+          title="Add presets from a JSON file"
+        >
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+        {message && <span className="text-xs text-muted-foreground">{message}</span>}
+      </div>
+    </div>
+  )
+}
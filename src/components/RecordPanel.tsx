@@ -0,0 +1,117 @@
+import type { PointerEvent as ReactPointerEvent } from 'react'
+import { cn } from '@/lib/utils'
+import type { RecordSettings } from '@/lib/recording'
+import { RECORD_KEYS } from '@/lib/recording'
+
+interface RecordPanelProps {
+  trackNames: string[]
+  armed: boolean
+  isPlaying: boolean
+  settings: RecordSettings
+  onToggleArmed: () => void
+  onSettingsChange: (changes: Partial<RecordSettings>) => void
+  onHit: (trackIndex: number, velocity: number) => void
+  onClose: () => void
+}
+
+export default function RecordPanel({
+  trackNames,
+  armed,
+  isPlaying,
+  settings,
+  onToggleArmed,
+  onSettingsChange,
+  onHit,
+  onClose
+}: RecordPanelProps) {
+  // Pads play louder towards the top
+  const handlePadDown = (event: ReactPointerEvent<HTMLButtonElement>, trackIndex: number) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const height = (event.clientY - rect.top) / rect.height
+    onHit(trackIndex, 1 - Math.min(1, Math.max(0, height)) * 0.75)
+  }
+
+  return (
+    <div className="bg-card rounded-xl p-6 shadow-md border border-border/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h2 className="text-sm font-semibold text-foreground">Record</h2>
+          <button
+            onClick={onToggleArmed}
+            className={cn(
+              "flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border transition-colors",
+              armed
+                ? "bg-destructive text-destructive-foreground border-destructive hover:bg-destructive/90"
+                : "bg-background border-border hover:bg-muted/30"
+            )}
+            title="Write played hits into the pattern while it plays"
+          >
+            <span className={cn("w-2.5 h-2.5 rounded-full", armed ? "bg-destructive-foreground animate-pulse" : "bg-destructive")} />
+            {armed ? 'Armed' : 'Arm'}
+          </button>
+          <span className="text-xs text-muted-foreground">
+            {armed && !isPlaying ? 'Start playback to record' : `Keys ${RECORD_KEYS.slice(0, trackNames.length).join(' ').toUpperCase()}, Shift for full velocity`}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-muted-foreground hover:text-foreground p-1 rounded-md hover:bg-muted/50 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Quantize settings */}
+      <div className="flex items-center gap-6">
+        <label className={cn("flex items-center gap-2 text-sm text-muted-foreground", settings.keepTiming && "opacity-50")}>
+          Quantize
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="5"
+            value={Math.round(settings.quantize * 100)}
+            onChange={(e) => onSettingsChange({ quantize: parseInt(e.target.value) / 100 })}
+            disabled={settings.keepTiming}
+            className="w-28 h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+          />
+          <span className="font-mono text-foreground w-10">{Math.round(settings.quantize * 100)}%</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={settings.keepTiming}
+            onChange={(e) => onSettingsChange({ keepTiming: e.target.checked })}
+          />
+          Keep raw timing
+        </label>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={settings.keepVelocity}
+            onChange={(e) => onSettingsChange({ keepVelocity: e.target.checked })}
+          />
+          Keep velocity
+        </label>
+      </div>
+
+      {/* Pads */}
+      <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
+        {trackNames.map((name, trackIndex) => (
+          <button
+            key={trackIndex}
+            onPointerDown={(e) => handlePadDown(e, trackIndex)}
+            className="h-20 rounded-lg bg-muted/30 border border-border/50 hover:bg-muted/50 active:bg-primary/30 transition-colors flex flex-col items-center justify-center gap-1 select-none touch-none"
+          >
+            <span className="text-sm font-medium text-foreground truncate max-w-full px-1">{name}</span>
+            {RECORD_KEYS[trackIndex] && (
+              <span className="text-xs font-mono text-muted-foreground">{RECORD_KEYS[trackIndex].toUpperCase()}</span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
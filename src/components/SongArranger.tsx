@@ -0,0 +1,137 @@
+import { cn } from '@/lib/utils'
+import type { SongEntry, PatternSlotId } from '@/lib/patternBank'
+import { MAX_SONG_REPEATS } from '@/lib/patternBank'
+
+interface SongArrangerProps {
+  song: SongEntry[]
+  songMode: boolean
+  currentSlot: PatternSlotId
+  playingIndex: number | null
+  barsPerPattern: number
+  onToggleSongMode: () => void
+  onAddEntry: (slot: PatternSlotId) => void
+  onRemoveEntry: (index: number) => void
+  onUpdateEntry: (index: number, changes: Partial<SongEntry>) => void
+  onMoveEntry: (index: number, direction: -1 | 1) => void
+}
+
+// Width of one bar in the timeline, in pixels
+const BAR_WIDTH = 28
+
+export default function SongArranger({
+  song,
+  songMode,
+  currentSlot,
+  playingIndex,
+  barsPerPattern,
+  onToggleSongMode,
+  onAddEntry,
+  onRemoveEntry,
+  onUpdateEntry,
+  onMoveEntry
+}: SongArrangerProps) {
+  // Patterns that aren't a whole number of bars long show fractional bar counts
+  const totalBars = Number(song.reduce((total, entry) => total + entry.repeats * barsPerPattern, 0).toFixed(1))
+
+  return (
+    <div className="bg-card rounded-xl p-6 shadow-md border border-border/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h2 className="text-sm font-semibold text-foreground">Song</h2>
+          <button
+            onClick={onToggleSongMode}
+            className={cn(
+              "w-12 h-6 rounded-full transition-colors relative",
+              songMode ? "bg-primary" : "bg-muted"
+            )}
+            title="Play the arrangement instead of the current pattern"
+            disabled={song.length === 0}
+          >
+            <div className={cn(
+              "w-5 h-5 bg-white rounded-full shadow-sm transition-transform absolute top-0.5",
+              songMode ? "translate-x-6" : "translate-x-0.5"
+            )} />
+          </button>
+          <span className="text-xs text-muted-foreground">
+            {song.length} {song.length === 1 ? 'block' : 'blocks'}, {totalBars} {totalBars === 1 ? 'bar' : 'bars'}
+          </span>
+        </div>
+        <button
+          onClick={() => onAddEntry(currentSlot)}
+          className="px-3 py-1.5 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors text-sm"
+        >
+          Add {currentSlot}
+        </button>
+      </div>
+
+      {/* Timeline */}
+      {song.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          Chain patterns into an arrangement by adding them here.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="flex gap-1 w-fit pb-1">
+            {song.map((entry, index) => (
+              <div
+                key={entry.id}
+                className={cn(
+                  "flex-shrink-0 rounded-lg border p-2 space-y-1.5 transition-colors",
+                  playingIndex === index
+                    ? "bg-primary/15 border-primary"
+                    : "bg-muted/20 border-border/50"
+                )}
+                style={{ width: Math.max(112, entry.repeats * barsPerPattern * BAR_WIDTH) }}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-semibold text-foreground">{entry.slot}</span>
+                  <button
+                    onClick={() => onRemoveEntry(index)}
+                    className="text-muted-foreground hover:text-destructive p-0.5 rounded-md transition-colors"
+                    title="Remove block"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onMoveEntry(index, -1)}
+                    disabled={index === 0}
+                    className="px-1.5 text-xs rounded-md border border-border/50 hover:bg-muted/40 disabled:opacity-30"
+                    title="Move earlier"
+                  >
+                    ◀
+                  </button>
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                    ×
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_SONG_REPEATS}
+                      value={entry.repeats}
+                      onChange={(e) => onUpdateEntry(index, {
+                        repeats: Math.min(MAX_SONG_REPEATS, Math.max(1, parseInt(e.target.value) || 1))
+                      })}
+                      className="w-10 h-6 px-1 text-xs text-center bg-background border border-border rounded-md"
+                      aria-label={`Repeats for ${entry.slot}`}
+                    />
+                  </label>
+                  <button
+                    onClick={() => onMoveEntry(index, 1)}
+                    disabled={index === song.length - 1}
+                    className="px-1.5 text-xs rounded-md border border-border/50 hover:bg-muted/40 disabled:opacity-30"
+                    title="Move later"
+                  >
+                    ▶
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+import { cn } from '@/lib/utils'
+import type { Step, TrigCondition, RatchetRamp } from '@/lib/pattern'
+import { TRIG_CONDITIONS, RATCHET_COUNTS, MIN_PITCH, MAX_PITCH, MAX_MICROTIMING, getNoteName } from '@/lib/pattern'
+import type { TrackEffect } from '@/lib/effectsEngine'
+import type { EffectParams } from '@/lib/effectRegistry'
+import { getEffectDefinition, getLockableParams, formatEffectParam } from '@/lib/effectRegistry'
+
+interface StepEditorProps {
+  trackName: string
+  stepIndex: number
+  step: Step
+  effects: TrackEffect[]
+  onChange: (changes: Partial<Step>) => void
+  onClose: () => void
+}
+
+export default function StepEditor({
+  trackName,
+  stepIndex,
+  step,
+  effects,
+  onChange,
+  onClose
+}: StepEditorProps) {
+  // Lock a parameter of one of the track's effects for this step, or release it with null
+  const setParamLock = (effectId: string, key: string, value: number | null) => {
+    const lock: Record<string, number> = { ...(step.paramLocks[effectId] as Record<string, number> | undefined) }
+    if (value === null) {
+      delete lock[key]
+    } else {
+      lock[key] = value
+    }
+
+    const paramLocks = { ...step.paramLocks }
+    if (Object.keys(lock).length === 0) {
+      delete paramLocks[effectId]
+    } else {
+      paramLocks[effectId] = lock as Partial<EffectParams>
+    }
+    onChange({ paramLocks })
+  }
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/20 backdrop-blur-sm z-40"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-card border border-border rounded-xl shadow-2xl w-[380px] max-h-[700px] overflow-y-auto z-50">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border">
+          <h3 className="text-lg font-semibold text-foreground">
+            {trackName} - Step {stepIndex + 1}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground p-1 rounded-md hover:bg-muted/50 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="text-sm font-medium text-foreground block mb-2">
+              Velocity: {(step.velocity * 100).toFixed(0)}%
+            </label>
+            <input
+              type="range"
+              min="0.05"
+              max="1"
+              step="0.01"
+              value={step.velocity}
+              onChange={(e) => onChange({ velocity: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-foreground block mb-2">
+              Pitch: {step.pitch > 0 ? `+${step.pitch}` : step.pitch} st ({getNoteName(step.pitch)})
+            </label>
+            <input
+              type="range"
+              min={MIN_PITCH}
+              max={MAX_PITCH}
+              step="1"
+              value={step.pitch}
+              onChange={(e) => onChange({ pitch: parseInt(e.target.value) })}
+              className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-foreground block mb-2">
+              Microtiming: {step.microtiming > 0 ? '+' : ''}{Math.round(step.microtiming * 100)}% of a step
+            </label>
+            <input
+              type="range"
+              min={-MAX_MICROTIMING}
+              max={MAX_MICROTIMING}
+              step="0.01"
+              value={step.microtiming}
+              onChange={(e) => onChange({ microtiming: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-foreground block mb-2">
+              Probability: {step.probability}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="1"
+              value={step.probability}
+              onChange={(e) => onChange({ probability: parseInt(e.target.value) })}
+              className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-foreground block mb-2">
+              Condition
+            </label>
+            <select
+              value={step.condition}
+              onChange={(e) => onChange({ condition: e.target.value as TrigCondition })}
+              className="w-full p-2 bg-background border border-border rounded-lg"
+            >
+              {TRIG_CONDITIONS.map(condition => (
+                <option key={condition.value} value={condition.value}>{condition.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-foreground block mb-2">
+              Ratchet
+            </label>
+            <div className="flex gap-2">
+              {RATCHET_COUNTS.map(count => (
+                <button
+                  key={count}
+                  onClick={() => onChange({ ratchet: count })}
+                  className={cn(
+                    "flex-1 py-1.5 rounded-lg text-sm font-medium border transition-colors",
+                    step.ratchet === count
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-background border-border hover:bg-muted/30"
+                  )}
+                >
+                  {count === 1 ? 'Off' : `×${count}`}
+                </button>
+              ))}
+            </div>
+          </div>
+          {step.ratchet > 1 && (
+            <div>
+              <label className="text-sm font-medium text-foreground block mb-2">
+                Ratchet Velocity Ramp
+              </label>
+              <select
+                value={step.ratchetRamp}
+                onChange={(e) => onChange({ ratchetRamp: e.target.value as RatchetRamp })}
+                className="w-full p-2 bg-background border border-border rounded-lg"
+              >
+                <option value="none">Flat</option>
+                <option value="up">Crescendo</option>
+                <option value="down">Decrescendo</option>
+              </select>
+            </div>
+          )}
+
+          {/* Parameter locks */}
+          <div className="pt-2 border-t border-border space-y-3">
+            <label className="text-sm font-medium text-foreground block">
+              Parameter Locks
+            </label>
+            {effects.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Add effects to this track to lock their parameters per step.
+              </p>
+            ) : effects.map(effect => {
+              const definition = getEffectDefinition(effect.type)
+              const baseParams = { ...definition.defaults, ...effect.params } as Record<string, number>
+              const lock = step.paramLocks[effect.id] as Record<string, number> | undefined
+
+              return (
+                <div key={effect.id} className="space-y-2">
+                  <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
+                    {definition.name}
+                  </div>
+                  {getLockableParams(effect.type).map(param => {
+                    const locked = lock?.[param.key] !== undefined
+                    const value = locked ? lock![param.key] : baseParams[param.key]
+
+                    return (
+                      <div key={param.key} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={locked}
+                          onChange={(e) => setParamLock(effect.id, param.key, e.target.checked ? baseParams[param.key] : null)}
+                          aria-label={`Lock ${param.label}`}
+                        />
+                        <span className="text-sm text-foreground w-24">{param.label}</span>
+                        <input
+                          type="range"
+                          min={param.min}
+                          max={param.max}
+                          step={param.step}
+                          value={value}
+                          disabled={!locked}
+                          onChange={(e) => setParamLock(effect.id, param.key, parseFloat(e.target.value))}
+                          className="flex-1 h-2 bg-muted rounded-lg appearance-none cursor-pointer slider disabled:opacity-40 disabled:cursor-not-allowed"
+                        />
+                        <span className="text-xs font-mono text-muted-foreground w-12 text-right">
+                          {formatEffectParam(param, value)}
+                        </span>
+                      </div>
+                    )
+                  })}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -1,85 +1,349 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import type { MouseEvent as ReactMouseEvent, PointerEvent as ReactPointerEvent } from 'react'
 import { cn } from '@/lib/utils'
 import { audioEngine } from '@/lib/audioEngine'
-import type { TrackEffect, EffectType, EffectParams } from '@/lib/effectsEngine'
-import { DEFAULT_EFFECT_PARAMS } from '@/lib/effectsEngine'
+import { transport } from '@/lib/transport'
+import type { Pattern, Step, TrackTiming } from '@/lib/pattern'
+import { MAX_STEPS, TRACK_SPEEDS, clampTrackLength, MIN_TUNING, MAX_TUNING, createPattern, insertPatternTrack, removePatternTrack, movePatternTrack, clampPitch, updateStep, getSpeedMultiplier, clampVelocity, nextVelocityLevel, getStepGain, shouldTrigger, hasTrigCondition, hasParamLocks, getRatchetHits } from '@/lib/pattern'
+import type { GrooveSettings } from '@/lib/groove'
+import type { PatternBank as PatternBankData, PatternSlotId, SongEntry, SongPosition } from '@/lib/patternBank'
+import { DEFAULT_SLOT, createSongEntry, advanceSong } from '@/lib/patternBank'
+import type { EuclidSettings } from '@/lib/euclid'
+import { DEFAULT_EUCLID, applyEuclid, applyEuclidToAll } from '@/lib/euclid'
+import type { GeneratorSettings } from '@/lib/generator'
+import { DEFAULT_MUTATE_AMOUNT, createSeed, getGeneratorTracks, generatePattern, mutatePattern } from '@/lib/generator'
+import type { RecordSettings } from '@/lib/recording'
+import { RECORD_KEYS, KEY_VELOCITY, DEFAULT_RECORD_SETTINGS, recordHit } from '@/lib/recording'
+import type { StepResolution, TimeSignature } from '@/lib/meter'
+import type { SoundSelection } from '@/lib/sounds'
+import { SOUND_GROUPS, DEFAULT_SOUNDS } from '@/lib/sounds'
+import type { Track, TrackGroup, TrackId } from '@/lib/tracks'
+import { createTrack, createDefaultTracks, createTrackGroup, duplicateTrack, getTrackName, moveItem, isTrackAudible, toggleSolo, groupTracksBySound } from '@/lib/tracks'
+import type { History, SequencerSnapshot } from '@/lib/history'
+import type { StepSelection, StepClipboard } from '@/lib/trackOps'
+import { normalizeSelection, isStepSelected, getTrackSelection, copySteps, pasteSteps, nudgeSteps, reverseSteps, invertSteps, clearSteps, doubleTracks } from '@/lib/trackOps'
+import { createHistory, recordHistory, replacePresent, undoHistory, redoHistory, getChangeKey } from '@/lib/history'
+import { STEP_RESOLUTIONS, TIME_SIGNATURES, DEFAULT_TIME_SIGNATURE, DEFAULT_RESOLUTION, formatTimeSignature, parseTimeSignature, getStepQuarterNotes, getStepsPerBar, getStepBoundary } from '@/lib/meter'
+import { GROOVE_TEMPLATES, MIN_SWING, MAX_SWING, getGrooveTemplate, getEffectiveSwing, getGrooveOffset, getGrooveVelocity } from '@/lib/groove'
+import type { TrackEffect, TrackLevels } from '@/lib/effectsEngine'
+import { getEffectStructure } from '@/lib/effectsEngine'
+import type { EffectType, EffectParams } from '@/lib/effectRegistry'
+import { createEffectParams } from '@/lib/effectRegistry'
+import type { AuxBus, TrackSend } from '@/lib/buses'
+import { MIN_BUSES, MAX_BUSES, createAuxBus, createDefaultBuses, getTrackSend } from '@/lib/buses'
+import type { MasterSettings, MasterLevels } from '@/lib/masterBus'
+import { DEFAULT_MASTER_SETTINGS } from '@/lib/masterBus'
 import EffectsPanel from './EffectsPanel'
+import StepEditor from './StepEditor'
+import PatternBank from './PatternBank'
+import SongArranger from './SongArranger'
+import PianoRoll from './PianoRoll'
+import EuclidPanel from './EuclidPanel'
+import GeneratorPanel from './GeneratorPanel'
+import RecordPanel from './RecordPanel'
+import EditToolbar from './EditToolbar'
+import GroupsPanel from './GroupsPanel'
+import MixerPanel from './MixerPanel'
+import MasterPanel from './MasterPanel'
 
 interface StepSequencerProps {
   className?: string
 }
 
-// Remy's sound groups organized by category
-const SOUND_GROUPS = {
-  cough: { 
-    name: 'Cough', 
-    files: ['Cough 1.wav', 'Cough 2.wav', 'Cough 3.wav', 'Cough 4.wav', 'Cough 5.wav', 'Cough 6.wav', 'Cough 7.wav'],
-    defaultIndex: 0 
-  },
-  cry: { 
-    name: 'Cry', 
-    files: ['Cry 1.wav', 'Cry 2.wav', 'Cry 3.wav', 'Cry 4.wav', 'Cry 5.wav', 'Cry 6.wav', 'Cry 7.wav', 'Cry 8.wav', 'Cry 9.wav', 'Cry 10.wav', 'Cry 11.wav'],
-    defaultIndex: 0 
+// Lane configuration for the transport from a pattern's track timing
+const getLaneConfigs = (timing: TrackTiming[], tracks: Track[]) => timing.map((track, index) => ({
+  id: tracks[index]?.id ?? String(index),
+  length: track.length,
+  speed: getSpeedMultiplier(track.speed)
+}))
+
+// Effect edits update React state and the engine chain together. Tracks and aux
+// buses share these handlers; getChainId maps a panel index to its chain.
+const createEffectHandlers = (
+  getChainId: (index: number) => string,
+  updateEffects: (index: number, update: (effects: TrackEffect[]) => TrackEffect[]) => void
+) => ({
+  onAddEffect: (index: number, effectType: EffectType) => {
+    const effectId = `${effectType}-${Date.now()}`
+    const newEffect: TrackEffect = {
+      id: effectId,
+      type: effectType,
+      params: createEffectParams(effectType),
+      enabled: true
+    }
+
+    updateEffects(index, effects => [...effects, newEffect])
+
+    // Add to effects engine
+    audioEngine.getEffectsEngine().addEffect(getChainId(index), newEffect)
   },
-  eat: { 
-    name: 'Eat', 
-    files: ['Eat 1.wav', 'Eat 2.wav', 'Eat 3.wav', 'Eat 4.wav', 'Eat 5.wav', 'Eat 6.wav', 'Eat 7.wav'],
-    defaultIndex: 0 
+
+  onRemoveEffect: (index: number, effectId: string) => {
+    updateEffects(index, effects => effects.filter(effect => effect.id !== effectId))
+
+    // Remove from effects engine
+    audioEngine.getEffectsEngine().removeEffect(getChainId(index), effectId)
   },
-  glurp: { 
-    name: 'Glurp', 
-    files: ['Glurp 1.wav', 'Glurp 2.wav', 'Glurp 3.wav', 'Glurp 4.wav', 'Glurp 5.wav', 'Glurp 6.wav', 'Glurp 7.wav', 'Glurp 8.wav'],
-    defaultIndex: 0 
+
+  onUpdateEffect: (index: number, effectId: string, params: Partial<EffectParams>) => {
+    updateEffects(index, effects => effects.map(effect =>
+      effect.id === effectId ? { ...effect, params: { ...effect.params, ...params } } : effect
+    ))
+
+    // Update in effects engine
+    audioEngine.getEffectsEngine().updateEffect(getChainId(index), effectId, params)
   },
-  misc: { 
-    name: 'Misc', 
-    files: ['Misc 1.wav', 'Misc 2.wav'],
-    defaultIndex: 0 
+
+  onToggleEffect: (index: number, effectId: string) => {
+    updateEffects(index, effects => effects.map(effect =>
+      effect.id === effectId ? { ...effect, enabled: !effect.enabled } : effect
+    ))
+
+    // Toggle in effects engine
+    audioEngine.getEffectsEngine().toggleEffect(getChainId(index), effectId)
   },
-  snore: { 
-    name: 'Snore', 
-    files: ['Snore 1.wav', 'Snore 2.wav', 'Snore 3.wav', 'Snore 4.wav', 'Snore 5.m4a'],
-    defaultIndex: 0 
+
+  // Copy an effect into the slot right after it
+  onDuplicateEffect: (index: number, effect: TrackEffect, slot: number) => {
+    const copy: TrackEffect = { ...effect, id: `${effect.type}-${Date.now()}` }
+    updateEffects(index, effects => [...effects.slice(0, slot + 1), copy, ...effects.slice(slot + 1)])
+    audioEngine.getEffectsEngine().addEffect(getChainId(index), copy, slot + 1)
   },
-  squish: { 
-    name: 'Squish', 
-    files: ['Squish 1.m4a', 'Squish 2.wav', 'Squish 3.m4a', 'Squish 4.wav', 'Squish 5.wav', 'Squish 6.wav'],
-    defaultIndex: 0 
-  }
-}
 
-// Default sound selection - one from each group
-const DEFAULT_SOUNDS = [
-  { name: 'Cough', groupKey: 'cough', fileIndex: 0, filePath: 'Cough 1.wav' },
-  { name: 'Cry', groupKey: 'cry', fileIndex: 0, filePath: 'Cry 1.wav' },
-  { name: 'Eat', groupKey: 'eat', fileIndex: 0, filePath: 'Eat 1.wav' },
-  { name: 'Glurp', groupKey: 'glurp', fileIndex: 0, filePath: 'Glurp 1.wav' },
-  { name: 'Misc', groupKey: 'misc', fileIndex: 0, filePath: 'Misc 1.wav' },
-  { name: 'Snore', groupKey: 'snore', fileIndex: 0, filePath: 'Snore 1.wav' },
-  { name: 'Squish', groupKey: 'squish', fileIndex: 0, filePath: 'Squish 1.m4a' }
-]
+  onMoveEffect: (index: number, fromSlot: number, toSlot: number) => {
+    updateEffects(index, effects => moveItem(effects, fromSlot, toSlot))
+    audioEngine.getEffectsEngine().moveEffect(getChainId(index), fromSlot, toSlot)
+  },
 
+  // Replace the whole chain, e.g. from a preset
+  onSetEffects: (index: number, effects: TrackEffect[]) => {
+    updateEffects(index, () => effects)
+    audioEngine.getEffectsEngine().syncTrackEffects(getChainId(index), effects)
+  }
+})
 
 export default function StepSequencer({ className }: StepSequencerProps) {
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentStep, setCurrentStep] = useState(0)
+  const [trackSteps, setTrackSteps] = useState<(number | null)[]>([])
   const [tempo, setTempo] = useState(120)
   const [gridSize, setGridSize] = useState(16)
+  const [timeSignature, setTimeSignature] = useState<TimeSignature>(DEFAULT_TIME_SIGNATURE)
+  const [resolution, setResolution] = useState<StepResolution>(DEFAULT_RESOLUTION)
   const [isInitialized, setIsInitialized] = useState(false)
-  const [sounds, setSounds] = useState(DEFAULT_SOUNDS)
-  const [pattern, setPattern] = useState<boolean[][]>(
-    Array(DEFAULT_SOUNDS.length).fill(null).map(() => Array(32).fill(false))
-  )
+  const [tracks, setTracks] = useState<Track[]>(createDefaultTracks)
+  const [groups, setGroups] = useState<TrackGroup[]>([])
+  const [groupsOpen, setGroupsOpen] = useState(false)
+  const [buses, setBuses] = useState<AuxBus[]>(createDefaultBuses)
+  const [busEffectsOpen, setBusEffectsOpen] = useState<number | null>(null)
+  const [mixerOpen, setMixerOpen] = useState(false)
+  const [levels, setLevels] = useState<Record<TrackId, TrackLevels>>({})
+  const [master, setMaster] = useState<MasterSettings>(DEFAULT_MASTER_SETTINGS)
+  const [masterLevels, setMasterLevels] = useState<MasterLevels>({ peak: -Infinity, rms: -Infinity, clipped: false })
+  const [bank, setBank] = useState<PatternBankData>(() => ({ [DEFAULT_SLOT]: createPattern(DEFAULT_SOUNDS.length) }))
+  const [currentSlot, setCurrentSlot] = useState<PatternSlotId>(DEFAULT_SLOT)
+  const [queuedSlot, setQueuedSlot] = useState<PatternSlotId | null>(null)
+  const [song, setSong] = useState<SongEntry[]>([])
+  const [songMode, setSongMode] = useState(false)
+  const [songPlayingIndex, setSongPlayingIndex] = useState<number | null>(null)
   const [soundPickerOpen, setSoundPickerOpen] = useState<number | null>(null)
   const [loadingSounds, setLoadingSounds] = useState<Set<string>>(new Set())
   const [effectsPanelOpen, setEffectsPanelOpen] = useState<number | null>(null)
-  const [trackEffects, setTrackEffects] = useState<TrackEffect[][]>(
-    Array(DEFAULT_SOUNDS.length).fill(null).map(() => [])
-  )
+  const [stepEditorOpen, setStepEditorOpen] = useState<{ soundIndex: number; stepIndex: number } | null>(null)
+  const [fillActive, setFillActive] = useState(false)
+  const [chromaticTrack, setChromaticTrack] = useState<number | null>(null)
+  const [euclidTrack, setEuclidTrack] = useState<number | null>(null)
+  const [generatorOpen, setGeneratorOpen] = useState(false)
+  const [generatorSettings, setGeneratorSettings] = useState<GeneratorSettings>(() => ({ seed: createSeed(), tracks: {} }))
+  const [mutateAmount, setMutateAmount] = useState(DEFAULT_MUTATE_AMOUNT)
+  const [mutations, setMutations] = useState(0)
+  const [recordOpen, setRecordOpen] = useState(false)
+  const [recordArmed, setRecordArmed] = useState(false)
+  const [recordSettings, setRecordSettings] = useState<RecordSettings>(DEFAULT_RECORD_SETTINGS)
+  const [selection, setSelection] = useState<StepSelection | null>(null)
+  const [selectMode, setSelectMode] = useState(false)
+  const [clipboard, setClipboard] = useState<StepClipboard | null>(null)
+  const [history, setHistory] = useState<History<SequencerSnapshot>>(() => createHistory({
+    bank, tracks, groups, buses, master, tempo, gridSize, timeSignature, resolution
+  }))
+  // Track row being dragged to a new position, and the row it would land on
+  const [trackDrag, setTrackDrag] = useState<{ from: number; to: number } | null>(null)
   
+  // The pattern being edited; always present because slots are created when selected
+  const pattern = bank[currentSlot]
+
   // Use ref to access current pattern without causing re-renders
   const patternRef = useRef(pattern)
   patternRef.current = pattern
+  const bankRef = useRef(bank)
+  bankRef.current = bank
+  const currentSlotRef = useRef(currentSlot)
+  currentSlotRef.current = currentSlot
+  const songRef = useRef(song)
+  songRef.current = song
+  const songModeRef = useRef(songMode)
+  songModeRef.current = songMode
+  const stepsPerBar = getStepsPerBar(timeSignature, resolution)
+  const stepsPerBarRef = useRef(stepsPerBar)
+  stepsPerBarRef.current = stepsPerBar
+
+  // Scheduler-owned playback position; ahead of React state by the lookahead window
+  const playingSlotRef = useRef<PatternSlotId>(currentSlot)
+  const queuedSlotRef = useRef<PatternSlotId | null>(null)
+  const songPositionRef = useRef<SongPosition>({ index: 0, repeatsLeft: 1 })
+  const tracksRef = useRef(tracks)
+  tracksRef.current = tracks
+  const groupsRef = useRef(groups)
+  groupsRef.current = groups
+  const busesRef = useRef(buses)
+  busesRef.current = buses
+  // Effect structure last synced to each bus chain, by bus id
+  const busStructuresRef = useRef<Record<string, string>>({})
+  const fillActiveRef = useRef(fillActive)
+  fillActiveRef.current = fillActive
+  const recordArmedRef = useRef(recordArmed)
+  recordArmedRef.current = recordArmed
+  const recordSettingsRef = useRef(recordSettings)
+  recordSettingsRef.current = recordSettings
+  // Pass of recorded hits that were previewed before the scheduler reached their
+  // step, by track id and step, so they don't sound a second time
+  const previewedHitsRef = useRef<Record<string, number>>({})
+
+  // Update the pattern in the current slot
+  const setPattern = useCallback((update: (prev: Pattern) => Pattern) => {
+    const slot = currentSlotRef.current
+    setBank(prev => ({ ...prev, [slot]: update(prev[slot]) }))
+  }, [])
+
+  // Record every undoable change; edits of the same control in quick succession merge
+  useEffect(() => {
+    const snapshot: SequencerSnapshot = { bank, tracks, groups, buses, master, tempo, gridSize, timeSignature, resolution }
+    setHistory(prev => {
+      const key = getChangeKey(prev.present, snapshot)
+      if (key === undefined) return prev
+      // Creating an empty slot by selecting it isn't an edit worth undoing
+      if (key === 'slots') return replacePresent(prev, snapshot)
+      return recordHistory(prev, snapshot, key ?? `bulk-${Date.now()}`)
+    })
+  }, [bank, tracks, groups, buses, master, tempo, gridSize, timeSignature, resolution])
+
+  // Panels and selections refer to tracks by position, so close them when tracks move
+  const resetTrackPanels = useCallback(() => {
+    setSoundPickerOpen(null)
+    setEffectsPanelOpen(null)
+    setStepEditorOpen(null)
+    setChromaticTrack(null)
+    setEuclidTrack(null)
+    setSelection(null)
+  }, [])
+
+  // Put a snapshot back into state and bring the audio graph along with it
+  const restoreSnapshot = useCallback((snapshot: SequencerSnapshot) => {
+    setBank(snapshot.bank)
+    setTracks(snapshot.tracks)
+    setGroups(snapshot.groups)
+    setBuses(snapshot.buses)
+    setMaster(snapshot.master)
+    setTempo(snapshot.tempo)
+    setGridSize(snapshot.gridSize)
+    setTimeSignature(snapshot.timeSignature)
+    setResolution(snapshot.resolution)
+
+    const effectsEngine = audioEngine.getEffectsEngine()
+    const chainIds = [...snapshot.tracks, ...snapshot.buses].map(chain => chain.id)
+    effectsEngine.getTrackIds()
+      .filter(chainId => !chainIds.includes(chainId))
+      .forEach(chainId => effectsEngine.removeEffectChain(chainId))
+    snapshot.tracks.forEach(track => effectsEngine.syncTrackEffects(track.id, track.effects))
+    snapshot.buses.forEach(bus => effectsEngine.syncTrackEffects(bus.id, bus.effects))
+    setBusEffectsOpen(null)
+    resetTrackPanels()
+  }, [resetTrackPanels])
+
+  const travelHistory = useCallback((direction: 'undo' | 'redo') => {
+    const next = direction === 'undo' ? undoHistory(history) : redoHistory(history)
+    if (next === history) return
+
+    // Slots created since the snapshot stay selectable, as fresh patterns
+    const { present } = next
+    const missingSlots = Object.keys(bankRef.current).filter(slot => !present.bank[slot])
+    const restored = missingSlots.length === 0 ? present : {
+      ...present,
+      bank: {
+        ...present.bank,
+        ...Object.fromEntries(missingSlots.map(slot => [slot, createPattern(present.tracks.length, present.gridSize)]))
+      }
+    }
+
+    setHistory({ ...next, present: restored })
+    restoreSnapshot(restored)
+  }, [history, restoreSnapshot])
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      const target = event.target as Element
+      if (target.closest('input[type="text"], input[type="number"], textarea')) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z') {
+        event.preventDefault()
+        travelHistory(event.shiftKey ? 'redo' : 'undo')
+      } else if (key === 'y') {
+        event.preventDefault()
+        travelHistory('redo')
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [travelHistory])
+
+  // Play a track right away and, when armed, write the hit onto the nearest step
+  // of the track's playing lane
+  const playHit = useCallback((soundIndex: number, velocity: number) => {
+    const track = tracksRef.current[soundIndex]
+    const context = audioEngine.getAudioContext()
+    if (!track || !context) return
+
+    audioEngine.playSound(track.sound.filePath, velocity, track.id, undefined, track.tuning)
+    if (!recordArmedRef.current) return
+
+    const position = transport.getTrackPosition(soundIndex, context.currentTime)
+    if (position) {
+      if (position.pending) {
+        previewedHitsRef.current[`${track.id}:${position.step}`] = position.pass
+      }
+      setPattern(prev => recordHit(prev, soundIndex, position, velocity, recordSettingsRef.current))
+    }
+  }, [setPattern])
+
+  // Finger drumming on the home row while the record panel is open
+  useEffect(() => {
+    if (!recordOpen) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.metaKey || event.ctrlKey || event.altKey) return
+      const target = event.target as Element
+      if (target.closest('input, select, textarea')) return
+
+      const soundIndex = RECORD_KEYS.indexOf(event.key.toLowerCase())
+      if (soundIndex === -1 || soundIndex >= tracksRef.current.length) return
+
+      event.preventDefault()
+      playHit(soundIndex, event.shiftKey ? 1 : KEY_VELOCITY)
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [recordOpen, playHit])
+
+  // Active velocity drag on a step button; `moved` suppresses the click toggle
+  const velocityDragRef = useRef<{ soundIndex: number; stepIndex: number; startY: number; startVelocity: number; moved: boolean } | null>(null)
+  const gridRef = useRef<HTMLDivElement>(null)
+  // Anchor of an in-progress rubber-band selection
+  const selectionDragRef = useRef<{ soundIndex: number; stepIndex: number } | null>(null)
 
   // Close modals when clicking outside
   useEffect(() => {
@@ -105,60 +369,592 @@ export default function StepSequencer({ className }: StepSequencerProps) {
     initAudio()
   }, [])
 
-  // Calculate interval based on tempo (BPM to milliseconds)
-  const stepInterval = (60 / tempo / 4) * 1000
+  // Keep each track's channel strip in line with its mixer settings. Mutes and
+  // solos silence the chain output too, cutting effect tails.
+  useEffect(() => {
+    if (!isInitialized) return
+    const effectsEngine = audioEngine.getEffectsEngine()
+    tracks.forEach(track => {
+      effectsEngine.setTrackVolume(track.id, track.volume)
+      effectsEngine.setTrackPan(track.id, track.pan)
+      effectsEngine.setTrackMuted(track.id, !isTrackAudible(track, tracks, groups))
+      buses.forEach(bus => {
+        const send = getTrackSend(track.sends, bus.id)
+        effectsEngine.setTrackSend(track.id, bus.id, send.level, send.preFader)
+      })
+      effectsEngine.setTrackModulators(track.id, track.modulators)
+    })
+  }, [isInitialized, tracks, groups, buses])
+
+  // Aux bus chains and return levels. Chains are only synced when their structure
+  // changes, e.g. for a new bus; parameter edits reach the engine through the
+  // bus effect handlers, and rewiring on every slider tick would click.
+  useEffect(() => {
+    if (!isInitialized) return
+    const effectsEngine = audioEngine.getEffectsEngine()
+    buses.forEach(bus => {
+      const structure = getEffectStructure(bus.effects)
+      if (busStructuresRef.current[bus.id] !== structure) {
+        busStructuresRef.current[bus.id] = structure
+        effectsEngine.syncTrackEffects(bus.id, bus.effects)
+      }
+      effectsEngine.setTrackVolume(bus.id, bus.volume)
+    })
+  }, [isInitialized, buses])
+
+  useEffect(() => {
+    if (!isInitialized) return
+    audioEngine.getMasterBus().update(master)
+  }, [isInitialized, master])
+
+  // Poll the channel meters while the mixer is visible
+  useEffect(() => {
+    if (!mixerOpen || !isInitialized) return
 
+    const effectsEngine = audioEngine.getEffectsEngine()
+    const masterBus = audioEngine.getMasterBus()
+    let frameId = 0
+    const updateLevels = () => {
+      const chains = [...tracksRef.current, ...busesRef.current]
+      const next = Object.fromEntries(chains.map(chain => [chain.id, effectsEngine.getTrackLevels(chain.id)]))
+      // Silence reads the same every frame; skip those re-renders
+      setLevels(prev => {
+        const unchanged = Object.keys(next).length === Object.keys(prev).length && Object.entries(next).every(
+          ([trackId, level]) => prev[trackId]?.peak === level.peak && prev[trackId]?.rms === level.rms
+        )
+        return unchanged ? prev : next
+      })
+      const nextMaster = masterBus.getLevels()
+      setMasterLevels(prev =>
+        prev.peak === nextMaster.peak && prev.rms === nextMaster.rms && prev.clipped === nextMaster.clipped ? prev : nextMaster
+      )
+      frameId = requestAnimationFrame(updateLevels)
+    }
+    frameId = requestAnimationFrame(updateLevels)
+    return () => cancelAnimationFrame(frameId)
+  }, [mixerOpen, isInitialized])
+
+  // Preload the selected sounds so scheduled steps never wait on a fetch
   useEffect(() => {
-    if (!isPlaying) return
-
-    const interval = setInterval(() => {
-      setCurrentStep((prev) => {
-        const nextStep = (prev + 1) % gridSize
-        
-        // Play sounds for active steps using ref to avoid re-renders
-        if (isInitialized) {
-          sounds.forEach((sound, soundIndex) => {
-            if (patternRef.current[soundIndex][prev]) {
-              audioEngine.playSound(sound.filePath, 0.7, soundIndex)
-            }
-          })
+    if (!isInitialized) return
+    tracks.forEach(track => audioEngine.preloadSound(track.sound.filePath))
+  }, [isInitialized, tracks])
+
+  // Schedule active steps on the audio clock; refs keep the callback current without re-registering
+  useEffect(() => {
+    // Switch playback to another pattern at the master step being scheduled
+    const switchToSlot = (slot: PatternSlotId) => {
+      const nextPattern = bankRef.current[slot]
+      if (!nextPattern) return
+
+      playingSlotRef.current = slot
+      transport.setTracks(getLaneConfigs(nextPattern.timing, tracksRef.current))
+      transport.restartLanes()
+      setCurrentSlot(slot)
+    }
+
+    transport.onMasterStep((step, _time, pass) => {
+      // Song mode: move through the arrangement each time the pattern loops
+      if (songModeRef.current && songRef.current.length > 0) {
+        if (step !== 0 || pass === 0) return
+
+        const position = advanceSong(songRef.current, songPositionRef.current)
+        const entryChanged = position.index !== songPositionRef.current.index
+        songPositionRef.current = position
+        if (entryChanged) {
+          switchToSlot(songRef.current[position.index].slot)
+          setSongPlayingIndex(position.index)
         }
-        
-        return nextStep
+        return
+      }
+
+      // Pattern mode: queued pattern switches land on the next bar line
+      const queued = queuedSlotRef.current
+      if (queued && step % stepsPerBarRef.current === 0) {
+        queuedSlotRef.current = null
+        setQueuedSlot(null)
+        switchToSlot(queued)
+      }
+    })
+
+    transport.onTrackStep((soundIndex, step, time, duration, pass, masterStep) => {
+      const playingPattern = bankRef.current[playingSlotRef.current]
+      if (!playingPattern) return
+
+      const { steps, timing, accents, groove } = playingPattern
+      const track = tracksRef.current[soundIndex]
+      const trackStep = steps[soundIndex]?.[step]
+      if (!track || !trackStep) return
+
+      // A hit recorded onto this step during this pass was already heard live
+      const previewKey = `${track.id}:${step}`
+      const previewedPass = previewedHitsRef.current[previewKey]
+      delete previewedHitsRef.current[previewKey]
+      if (previewedPass === pass) return
+
+      if (!isTrackAudible(track, tracksRef.current, groupsRef.current)) return
+      if (!shouldTrigger(trackStep, pass, fillActiveRef.current)) return
+
+      const nextStep = (step + 1) % timing[soundIndex].length
+      // Groove follows 16th notes whatever the lane's resolution and speed
+      const stepSixteenths = duration / transport.getSixteenthDuration()
+      const stepTime = time + getGrooveOffset(groove, step, duration, stepSixteenths) + trackStep.microtiming * duration
+      // Swung steps are longer or shorter than a straight step; ratchets fill the actual gap
+      const swungDuration = time + duration + getGrooveOffset(groove, nextStep, duration, stepSixteenths) - stepTime
+      const gain = getStepGain(trackStep, accents[masterStep]) * getGrooveVelocity(groove, step, stepSixteenths)
+
+      // Parameter locks hold for the step, then the effect returns to its base values
+      const effectsEngine = audioEngine.getEffectsEngine()
+      Object.entries(trackStep.paramLocks).forEach(([effectId, lock]) => {
+        effectsEngine.lockEffect(track.id, effectId, lock, stepTime, stepTime + swungDuration)
       })
-    }, stepInterval)
 
-    return () => clearInterval(interval)
-  }, [isPlaying, stepInterval, isInitialized, sounds, gridSize])
+      const semitones = track.tuning + trackStep.pitch
+      getRatchetHits(trackStep, stepTime, swungDuration).forEach(hit => {
+        audioEngine.playSound(track.sound.filePath, gain * hit.velocityScale, track.id, hit.time, semitones)
+        effectsEngine.triggerModulators(track.id, hit.time)
+      })
+    })
+    return () => {
+      transport.onMasterStep(null)
+      transport.onTrackStep(null)
+    }
+  }, [])
+
+  // Tempo-synced effect parameters follow the tempo live
+  useEffect(() => {
+    transport.setTempo(tempo)
+    audioEngine.getEffectsEngine().setTempo(tempo)
+  }, [tempo])
+
+  useEffect(() => {
+    transport.setLength(gridSize)
+  }, [gridSize])
+
+  useEffect(() => {
+    transport.setResolution(getStepQuarterNotes(resolution))
+  }, [resolution])
+
+  useEffect(() => {
+    transport.setTracks(getLaneConfigs(pattern.timing, tracks))
+  }, [pattern.timing, tracks])
+
+  useEffect(() => {
+    if (!isPlaying || !isInitialized) return
+
+    transport.start()
+
+    // Drive the UI playhead from the audio clock, separately from scheduling
+    let frameId = 0
+    const updatePlayhead = () => {
+      const step = transport.getPlayheadStep()
+      if (step !== null) {
+        setCurrentStep(step)
+      }
+      // Only re-render when a track playhead actually moved
+      const playheads = transport.getTrackPlayheads()
+      setTrackSteps(prev =>
+        prev.length === playheads.length && prev.every((value, index) => value === playheads[index]) ? prev : playheads
+      )
+      frameId = requestAnimationFrame(updatePlayhead)
+    }
+    frameId = requestAnimationFrame(updatePlayhead)
+
+    return () => {
+      cancelAnimationFrame(frameId)
+      transport.stop()
+      previewedHitsRef.current = {}
+      setTrackSteps([])
+    }
+  }, [isPlaying, isInitialized])
 
   const toggleStep = useCallback((soundIndex: number, stepIndex: number) => {
+    setPattern(prev => updateStep(prev, soundIndex, stepIndex, { active: !prev.steps[soundIndex][stepIndex].active }))
+  }, [setPattern])
+
+  const setStepVelocity = useCallback((soundIndex: number, stepIndex: number, velocity: number) => {
+    setPattern(prev => updateStep(prev, soundIndex, stepIndex, { velocity: clampVelocity(velocity) }))
+  }, [setPattern])
+
+  const editStep = useCallback((soundIndex: number, stepIndex: number, changes: Partial<Step>) => {
+    setPattern(prev => updateStep(prev, soundIndex, stepIndex, changes))
+  }, [setPattern])
+
+  const updateTrackTiming = useCallback((soundIndex: number, changes: Partial<TrackTiming>) => {
+    setPattern(prev => {
+      const timing = [...prev.timing]
+      timing[soundIndex] = { ...timing[soundIndex], ...changes }
+      if (changes.length !== undefined) {
+        timing[soundIndex].length = clampTrackLength(changes.length)
+      }
+      // Euclidean tracks re-generate to fill their new length
+      return applyEuclid({ ...prev, timing }, soundIndex)
+    })
+  }, [setPattern])
+
+  // Set (or with null, remove) a track's Euclidean generator and re-generate its row
+  const setTrackEuclid = useCallback((soundIndex: number, settings: EuclidSettings | null) => {
     setPattern(prev => {
-      const newPattern = [...prev]
-      newPattern[soundIndex] = [...newPattern[soundIndex]]
-      newPattern[soundIndex][stepIndex] = !newPattern[soundIndex][stepIndex]
-      return newPattern
+      const euclid = [...prev.euclid]
+      euclid[soundIndex] = settings
+      return applyEuclid({ ...prev, euclid }, soundIndex)
     })
+  }, [setPattern])
+
+  // Piano roll edits are monophonic: a step plays one pitch, or is cleared with null
+  const setStepNote = useCallback((soundIndex: number, stepIndex: number, pitch: number | null) => {
+    setPattern(prev => updateStep(prev, soundIndex, stepIndex, pitch === null
+      ? { active: false }
+      : { active: true, pitch: clampPitch(pitch) }))
+  }, [setPattern])
+
+  const updateTrack = useCallback((soundIndex: number, changes: Partial<Track>) => {
+    setTracks(prev => prev.map((track, index) => index === soundIndex ? { ...track, ...changes } : track))
   }, [])
 
+  const setTrackTuning = useCallback((soundIndex: number, tuning: number) => {
+    updateTrack(soundIndex, { tuning: clampPitch(tuning, MIN_TUNING, MAX_TUNING) })
+  }, [updateTrack])
+
+  // Track list edits apply to every pattern in the bank so rows stay aligned with tracks
+  const addTrack = (sound: SoundSelection) => {
+    setTracks(prev => [...prev, createTrack(sound)])
+    setBank(prev => Object.fromEntries(Object.entries(prev).map(([slot, slotPattern]) => [
+      slot, insertPatternTrack(slotPattern, slotPattern.steps.length, gridSize)
+    ])))
+  }
+
+  const duplicateTrackAt = (soundIndex: number) => {
+    const copy = duplicateTrack(tracks[soundIndex])
+    audioEngine.getEffectsEngine().syncTrackEffects(copy.id, copy.effects)
+    setTracks(prev => [...prev.slice(0, soundIndex + 1), copy, ...prev.slice(soundIndex + 1)])
+    setBank(prev => Object.fromEntries(Object.entries(prev).map(([slot, slotPattern]) => [
+      slot, insertPatternTrack(slotPattern, soundIndex + 1, gridSize, soundIndex)
+    ])))
+    resetTrackPanels()
+  }
+
+  const removeTrack = (soundIndex: number) => {
+    if (tracks.length <= 1) return
+
+    audioEngine.getEffectsEngine().removeEffectChain(tracks[soundIndex].id)
+    setTracks(prev => prev.filter((_, index) => index !== soundIndex))
+    setBank(prev => Object.fromEntries(Object.entries(prev).map(([slot, slotPattern]) => [
+      slot, removePatternTrack(slotPattern, soundIndex)
+    ])))
+    resetTrackPanels()
+  }
+
+  const moveTrack = (from: number, to: number) => {
+    if (from === to) return
+
+    setTracks(prev => moveItem(prev, from, to))
+    setBank(prev => Object.fromEntries(Object.entries(prev).map(([slot, slotPattern]) => [
+      slot, movePatternTrack(slotPattern, from, to)
+    ])))
+    resetTrackPanels()
+  }
+
+  // Ctrl/Cmd+click solos a track exclusively
+  const soloTrack = (event: ReactMouseEvent, soundIndex: number) => {
+    setTracks(prev => toggleSolo(prev, soundIndex, event.ctrlKey || event.metaKey))
+  }
+
+  const addGroup = () => {
+    setGroups(prev => [...prev, createTrackGroup(`Group ${prev.length + 1}`)])
+  }
+
+  const groupBySound = () => {
+    const grouped = groupTracksBySound(tracks, groups)
+    setTracks(grouped.tracks)
+    setGroups(grouped.groups)
+  }
+
+  const updateGroup = (groupId: string, changes: Partial<TrackGroup>) => {
+    setGroups(prev => prev.map(group => group.id === groupId ? { ...group, ...changes } : group))
+  }
+
+  // Members stay, just ungrouped
+  const removeGroup = (groupId: string) => {
+    setGroups(prev => prev.filter(group => group.id !== groupId))
+    setTracks(prev => prev.map(track => track.groupId === groupId ? { ...track, groupId: null } : track))
+  }
+
+  const updateTrackSend = (trackIndex: number, busId: string, changes: Partial<TrackSend>) => {
+    setTracks(prev => prev.map((track, index) => index === trackIndex
+      ? { ...track, sends: { ...track.sends, [busId]: { ...getTrackSend(track.sends, busId), ...changes } } }
+      : track
+    ))
+  }
+
+  const addBus = () => {
+    if (buses.length >= MAX_BUSES) return
+    setBuses(prev => [...prev, createAuxBus(`Bus ${prev.length + 1}`)])
+  }
+
+  const updateBus = (busIndex: number, changes: Partial<AuxBus>) => {
+    setBuses(prev => prev.map((bus, index) => index === busIndex ? { ...bus, ...changes } : bus))
+  }
+
+  // Sends into the bus go with it
+  const removeBus = (busIndex: number) => {
+    if (buses.length <= MIN_BUSES) return
+
+    const busId = buses[busIndex].id
+    audioEngine.getEffectsEngine().removeEffectChain(busId)
+    setBuses(prev => prev.filter(bus => bus.id !== busId))
+    setTracks(prev => prev.map(track => busId in track.sends
+      ? { ...track, sends: Object.fromEntries(Object.entries(track.sends).filter(([id]) => id !== busId)) }
+      : track
+    ))
+    setBusEffectsOpen(null)
+  }
+
+  const toggleAccent = useCallback((stepIndex: number) => {
+    setPattern(prev => {
+      const accents = [...prev.accents]
+      accents[stepIndex] = !accents[stepIndex]
+      return { ...prev, accents }
+    })
+  }, [setPattern])
+
+  const updateGroove = useCallback((changes: Partial<GrooveSettings>) => {
+    setPattern(prev => ({ ...prev, groove: { ...prev.groove, ...changes } }))
+  }, [setPattern])
+
+  // Click toggles a step; Shift+click on an active step cycles its velocity instead
+  const handleStepClick = (event: ReactMouseEvent, soundIndex: number, stepIndex: number) => {
+    if (selectionDragRef.current) {
+      selectionDragRef.current = null
+      return
+    }
+
+    const drag = velocityDragRef.current
+    velocityDragRef.current = null
+    if (drag?.moved) return
+
+    const step = pattern.steps[soundIndex][stepIndex]
+    if (event.shiftKey && step.active) {
+      setStepVelocity(soundIndex, stepIndex, nextVelocityLevel(step.velocity))
+    } else {
+      toggleStep(soundIndex, stepIndex)
+    }
+  }
+
+  // Vertical drag on an active step sets its velocity. In select mode, or with
+  // Alt held, dragging draws a selection rectangle across rows instead.
+  const handleStepPointerDown = (event: ReactPointerEvent, soundIndex: number, stepIndex: number) => {
+    if (selectMode || event.altKey) {
+      selectionDragRef.current = { soundIndex, stepIndex }
+      setSelection({ startTrack: soundIndex, endTrack: soundIndex, startStep: stepIndex, endStep: stepIndex })
+      event.currentTarget.setPointerCapture(event.pointerId)
+      return
+    }
+
+    const step = pattern.steps[soundIndex][stepIndex]
+    if (!step.active) return
+
+    velocityDragRef.current = { soundIndex, stepIndex, startY: event.clientY, startVelocity: step.velocity, moved: false }
+    event.currentTarget.setPointerCapture(event.pointerId)
+  }
+
+  const handleStepPointerMove = (event: ReactPointerEvent) => {
+    const anchor = selectionDragRef.current
+    if (anchor) {
+      // Pointer capture keeps events on the first step, so look up the one underneath
+      const button = document.elementFromPoint(event.clientX, event.clientY)?.closest<HTMLElement>('[data-step]')
+      if (button) {
+        setSelection({
+          startTrack: anchor.soundIndex,
+          endTrack: Number(button.dataset.track),
+          startStep: anchor.stepIndex,
+          endStep: Number(button.dataset.step)
+        })
+      }
+      return
+    }
+
+    const drag = velocityDragRef.current
+    if (!drag) return
+
+    const deltaY = drag.startY - event.clientY
+    if (!drag.moved && Math.abs(deltaY) < 3) return
+
+    drag.moved = true
+    setStepVelocity(drag.soundIndex, drag.stepIndex, drag.startVelocity + deltaY / 100)
+  }
+
+  // Clicking a track name in select mode selects its row; Shift extends the selection
+  const selectTrackRow = (event: ReactMouseEvent, soundIndex: number) => {
+    const row = getTrackSelection(pattern, soundIndex)
+    if (event.shiftKey && selection) {
+      const range = normalizeSelection(selection)
+      setSelection({
+        startTrack: Math.min(range.startTrack, soundIndex),
+        endTrack: Math.max(range.endTrack, soundIndex),
+        startStep: 0,
+        endStep: Math.max(range.endStep, row.endStep)
+      })
+    } else {
+      setSelection(row)
+    }
+  }
+
+  const copySelection = useCallback(() => {
+    if (selection) setClipboard(copySteps(patternRef.current, selection))
+  }, [selection])
+
+  // Pastes at the selection's top-left corner and selects what was pasted
+  const pasteClipboard = useCallback(() => {
+    if (!selection || !clipboard) return
+    const { startTrack, startStep } = normalizeSelection(selection)
+    setPattern(prev => pasteSteps(prev, clipboard, startTrack, startStep))
+    setSelection({
+      startTrack,
+      endTrack: Math.min(startTrack + clipboard.length, patternRef.current.steps.length) - 1,
+      startStep,
+      endStep: Math.min(MAX_STEPS, startStep + Math.max(1, ...clipboard.map(row => row.length))) - 1
+    })
+  }, [selection, clipboard, setPattern])
+
+  const clearSelection = useCallback(() => {
+    if (selection) setPattern(prev => clearSteps(prev, selection))
+  }, [selection, setPattern])
+
+  // Ctrl+C / Ctrl+V / Delete / Esc on the selection
+  useEffect(() => {
+    if (!selection) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as Element
+      if (target.closest('input, select, textarea')) return
+
+      const key = event.key.toLowerCase()
+      if ((event.ctrlKey || event.metaKey) && key === 'c') {
+        event.preventDefault()
+        copySelection()
+      } else if ((event.ctrlKey || event.metaKey) && key === 'v') {
+        event.preventDefault()
+        pasteClipboard()
+      } else if (key === 'delete' || key === 'backspace') {
+        event.preventDefault()
+        clearSelection()
+      } else if (key === 'escape') {
+        setSelection(null)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [selection, copySelection, pasteClipboard, clearSelection])
+
+  // Scrolling over an active step nudges its velocity. Registered natively
+  // because React wheel listeners are passive and can't stop the page scrolling.
+  useEffect(() => {
+    const grid = gridRef.current
+    if (!grid) return
+
+    const handleWheel = (event: WheelEvent) => {
+      const button = (event.target as Element).closest<HTMLElement>('[data-step]')
+      if (!button) return
+
+      const soundIndex = Number(button.dataset.track)
+      const stepIndex = Number(button.dataset.step)
+      const step = patternRef.current.steps[soundIndex][stepIndex]
+      if (!step.active) return
+
+      event.preventDefault()
+      setStepVelocity(soundIndex, stepIndex, step.velocity + (event.deltaY < 0 ? 0.05 : -0.05))
+    }
+
+    grid.addEventListener('wheel', handleWheel, { passive: false })
+    return () => grid.removeEventListener('wheel', handleWheel)
+  }, [setStepVelocity])
+
   const togglePlay = async () => {
     if (!isPlaying) {
       await audioEngine.resumeContext()
+
+      // Song mode always starts from the top of the arrangement
+      if (songMode && song.length > 0) {
+        songPositionRef.current = { index: 0, repeatsLeft: song[0].repeats }
+        playingSlotRef.current = song[0].slot
+        setCurrentSlot(song[0].slot)
+        setSongPlayingIndex(0)
+      } else {
+        playingSlotRef.current = currentSlot
+      }
     } else {
       setCurrentStep(0)
+      setSongPlayingIndex(null)
+      queuedSlotRef.current = null
+      setQueuedSlot(null)
     }
     setIsPlaying(!isPlaying)
   }
 
-  const previewSound = async (soundIndex: number) => {
+  // Empty slots get a fresh pattern the first time they are selected
+  const ensurePattern = (slot: PatternSlotId) => {
+    if (!bankRef.current[slot]) {
+      const created = createPattern(tracks.length, gridSize)
+      bankRef.current = { ...bankRef.current, [slot]: created }
+      setBank(prev => prev[slot] ? prev : { ...prev, [slot]: created })
+    }
+  }
+
+  const selectSlot = (slot: PatternSlotId) => {
+    if (isPlaying && songMode && song.length > 0) return
+
+    ensurePattern(slot)
+    if (isPlaying) {
+      // Clicking the playing pattern again cancels a pending switch
+      const queued = slot === playingSlotRef.current ? null : slot
+      queuedSlotRef.current = queued
+      setQueuedSlot(queued)
+    } else {
+      playingSlotRef.current = slot
+      setCurrentSlot(slot)
+    }
+  }
+
+  const addSongEntry = (slot: PatternSlotId) => {
+    setSong(prev => [...prev, createSongEntry(slot)])
+  }
+
+  const removeSongEntry = (index: number) => {
+    setSong(prev => {
+      const next = prev.filter((_, i) => i !== index)
+      if (next.length === 0) {
+        setSongMode(false)
+      }
+      return next
+    })
+  }
+
+  const updateSongEntry = (index: number, changes: Partial<SongEntry>) => {
+    setSong(prev => prev.map((entry, i) => i === index ? { ...entry, ...changes } : entry))
+  }
+
+  const moveSongEntry = (index: number, direction: -1 | 1) => {
+    setSong(prev => {
+      const target = index + direction
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const previewSound = async (soundIndex: number, pitch: number = 0) => {
     if (!isInitialized) return
     
-    const sound = sounds[soundIndex]
-    const filePath = sound.filePath
+    const track = tracks[soundIndex]
+    const filePath = track.sound.filePath
     
     try {
       setLoadingSounds(prev => new Set([...prev, filePath]))
       await audioEngine.resumeContext()
-      await audioEngine.playSound(filePath, 0.7, soundIndex)
+      await audioEngine.playSound(filePath, 0.7, track.id, undefined, track.tuning + pitch)
     } catch (error) {
       console.error(`Failed to preview sound ${filePath}:`, error)
     } finally {
@@ -170,93 +966,78 @@ export default function StepSequencer({ className }: StepSequencerProps) {
     }
   }
 
-  const selectSound = useCallback((soundIndex: number, newSound: { name: string; groupKey: string; fileIndex: number; filePath: string }) => {
-    setSounds(prev => {
-      const newSounds = [...prev]
-      newSounds[soundIndex] = newSound
-      return newSounds
-    })
+  const selectSound = useCallback((soundIndex: number, newSound: SoundSelection) => {
+    updateTrack(soundIndex, { sound: newSound })
     setSoundPickerOpen(null)
-  }, [])
+  }, [updateTrack])
 
   const clearPattern = () => {
-    setPattern(Array(sounds.length).fill(null).map(() => Array(32).fill(false)))
+    // Keep track timing and the groove setting; steps are cleared and generators turned off
+    setPattern(prev => ({ ...createPattern(tracks.length), timing: prev.timing, groove: prev.groove }))
     setIsPlaying(false)
     setCurrentStep(0)
   }
 
-  const toggleGridSize = () => {
-    const newGridSize = gridSize === 16 ? 32 : 16
-    
-    if (newGridSize === 16) {
-      // Switching from 32 to 16: keep first 16 steps, clear the rest is handled by rendering
-    } else {
-      // Switching from 16 to 32: second 16 steps should be empty (they already are in our 32-step array)
-    }
-    
-    setGridSize(newGridSize)
-    setIsPlaying(false)
-    setCurrentStep(0)
+  const generate = () => {
+    const trackSettings = getGeneratorTracks(generatorSettings, tracks)
+    setPattern(prev => generatePattern(prev, generatorSettings.seed, trackSettings, timeSignature, resolution))
+    setMutations(0)
   }
 
-  // Effects management functions
-  const handleAddEffect = useCallback((trackIndex: number, effectType: EffectType) => {
-    const effectId = `${effectType}-${Date.now()}`
-    const newEffect: TrackEffect = {
-      id: effectId,
-      type: effectType,
-      params: { ...DEFAULT_EFFECT_PARAMS[effectType] },
-      enabled: true
-    }
+  // Each mutation draws from its own seed, so a seed plus a mutation count is reproducible
+  const mutate = () => {
+    setPattern(prev => mutatePattern(prev, `${generatorSettings.seed}/${mutations + 1}`, mutateAmount))
+    setMutations(mutations + 1)
+  }
 
-    setTrackEffects(prev => {
-      const newEffects = [...prev]
-      newEffects[trackIndex] = [...newEffects[trackIndex], newEffect]
-      return newEffects
-    })
+  const changeGridSize = (size: number) => {
+    const newGridSize = clampTrackLength(size)
+    if (newGridSize === gridSize) return
 
-    // Add to effects engine
-    audioEngine.getEffectsEngine().addEffect(trackIndex, newEffect)
-  }, [])
+    // Tracks still at the pattern length follow it in every pattern; custom lengths are kept
+    setBank(prev => Object.fromEntries(Object.entries(prev).map(([slot, slotPattern]) => [slot, applyEuclidToAll({
+      ...slotPattern,
+      timing: slotPattern.timing.map(timing => timing.length === gridSize ? { ...timing, length: newGridSize } : timing)
+    })])))
+    setGridSize(newGridSize)
+  }
 
-  const handleRemoveEffect = useCallback((trackIndex: number, effectId: string) => {
-    setTrackEffects(prev => {
-      const newEffects = [...prev]
-      newEffects[trackIndex] = newEffects[trackIndex].filter(effect => effect.id !== effectId)
-      return newEffects
-    })
+  // Changing the meter or resolution keeps the same number of bars in the pattern
+  const changeMeter = (signature: TimeSignature, stepResolution: StepResolution) => {
+    const bars = Math.max(1, Math.round(gridSize / stepsPerBar))
+    changeGridSize(bars * getStepsPerBar(signature, stepResolution))
+    setTimeSignature(signature)
+    setResolution(stepResolution)
+  }
 
-    // Remove from effects engine
-    audioEngine.getEffectsEngine().removeEffect(trackIndex, effectId)
-  }, [])
+  // Gap before a step: wider on bar lines, narrow on beat groups of the meter
+  const renderStepSpacer = (stepIndex: number) => {
+    const boundary = getStepBoundary(stepIndex, timeSignature, resolution)
+    if (boundary === 'bar') return <div className="w-2"></div>
+    if (boundary === 'beat') return <div className="w-1"></div>
+    return null
+  }
 
-  const handleUpdateEffect = useCallback((trackIndex: number, effectId: string, params: Partial<EffectParams>) => {
-    setTrackEffects(prev => {
-      const newEffects = [...prev]
-      const effectIndex = newEffects[trackIndex].findIndex(effect => effect.id === effectId)
-      if (effectIndex !== -1) {
-        newEffects[trackIndex][effectIndex].params = { ...newEffects[trackIndex][effectIndex].params, ...params }
-      }
-      return newEffects
-    })
+  // Effects management functions
+  const updateTrackEffects = useCallback((trackIndex: number, update: (effects: TrackEffect[]) => TrackEffect[]) => {
+    setTracks(prev => prev.map((track, index) => index === trackIndex ? { ...track, effects: update(track.effects) } : track))
+  }, [])
 
-    // Update in effects engine
-    audioEngine.getEffectsEngine().updateEffect(trackIndex, effectId, params)
+  const updateBusEffects = useCallback((busIndex: number, update: (effects: TrackEffect[]) => TrackEffect[]) => {
+    setBuses(prev => prev.map((bus, index) => index === busIndex ? { ...bus, effects: update(bus.effects) } : bus))
   }, [])
 
-  const handleToggleEffect = useCallback((trackIndex: number, effectId: string) => {
-    setTrackEffects(prev => {
-      const newEffects = [...prev]
-      const effectIndex = newEffects[trackIndex].findIndex(effect => effect.id === effectId)
-      if (effectIndex !== -1) {
-        newEffects[trackIndex][effectIndex].enabled = !newEffects[trackIndex][effectIndex].enabled
-      }
-      return newEffects
-    })
+  const trackEffectHandlers = useMemo(
+    () => createEffectHandlers(trackIndex => tracksRef.current[trackIndex].id, updateTrackEffects),
+    [updateTrackEffects]
+  )
+  const busEffectHandlers = useMemo(
+    () => createEffectHandlers(busIndex => busesRef.current[busIndex].id, updateBusEffects),
+    [updateBusEffects]
+  )
 
-    // Toggle in effects engine
-    audioEngine.getEffectsEngine().toggleEffect(trackIndex, effectId)
-  }, [])
+  const grooveTemplate = getGrooveTemplate(pattern.groove.templateId)
+  const maxTrackLength = Math.max(gridSize, ...pattern.timing.map(timing => timing.length))
 
   return (
     <div className={cn('w-full max-w-7xl mx-auto p-8 space-y-8', className)}>
@@ -269,7 +1050,7 @@ export default function StepSequencer({ className }: StepSequencerProps) {
 
       {/* Controls */}
       <div className="bg-card rounded-xl p-6 shadow-md border border-border/50">
-        <div className="flex items-center justify-center gap-4">
+        <div className="flex flex-wrap items-center justify-center gap-4">
           <button
             onClick={togglePlay}
             className={cn(
@@ -306,15 +1087,134 @@ export default function StepSequencer({ className }: StepSequencerProps) {
             Clear
           </button>
 
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => travelHistory('undo')}
+              disabled={history.past.length === 0}
+              className="p-3 rounded-lg bg-background border border-border text-foreground hover:bg-muted/30 transition-colors duration-200 disabled:opacity-40"
+              title="Undo (Ctrl+Z)"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+              </svg>
+            </button>
+            <button
+              onClick={() => travelHistory('redo')}
+              disabled={history.future.length === 0}
+              className="p-3 rounded-lg bg-background border border-border text-foreground hover:bg-muted/30 transition-colors duration-200 disabled:opacity-40"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+              </svg>
+            </button>
+          </div>
+
+          <button
+            onClick={() => setFillActive(!fillActive)}
+            className={cn(
+              "flex items-center gap-2 px-6 py-3 rounded-lg border transition-colors duration-200 font-medium text-base active:transform-none",
+              fillActive
+                ? "bg-primary text-primary-foreground border-primary hover:bg-primary/90"
+                : "bg-background border-border text-foreground hover:bg-muted/30"
+            )}
+            title="Fill mode: enables steps with the Fill condition"
+          >
+            Fill
+          </button>
+
+          <button
+            onClick={() => setGeneratorOpen(!generatorOpen)}
+            className={cn(
+              "flex items-center gap-2 px-6 py-3 rounded-lg border transition-colors duration-200 font-medium text-base active:transform-none",
+              generatorOpen
+                ? "bg-primary/10 text-primary border-primary/40"
+                : "bg-background border-border text-foreground hover:bg-muted/30"
+            )}
+            title="Generate or mutate a pattern from a seed"
+          >
+            Generate
+          </button>
+
           <button
-            onClick={toggleGridSize}
-            className="flex items-center gap-2 px-6 py-3 rounded-lg bg-accent/10 border border-accent/20 text-accent-foreground hover:bg-accent/20 transition-colors duration-200 font-medium text-base active:transform-none"
+            onClick={() => setMixerOpen(!mixerOpen)}
+            className={cn(
+              "flex items-center gap-2 px-6 py-3 rounded-lg border transition-colors duration-200 font-medium text-base active:transform-none",
+              mixerOpen
+                ? "bg-primary/10 text-primary border-primary/40"
+                : "bg-background border-border text-foreground hover:bg-muted/30"
+            )}
+            title="Volume, pan and levels per track, and the master bus"
           >
+            Mixer
+          </button>
+
+          <button
+            onClick={() => setGroupsOpen(!groupsOpen)}
+            className={cn(
+              "flex items-center gap-2 px-6 py-3 rounded-lg border transition-colors duration-200 font-medium text-base active:transform-none",
+              groupsOpen || groups.some(group => group.muted)
+                ? "bg-primary/10 text-primary border-primary/40"
+                : "bg-background border-border text-foreground hover:bg-muted/30"
+            )}
+            title="Group tracks to mute them together"
+          >
+            Groups
+          </button>
+
+          <button
+            onClick={() => setRecordOpen(!recordOpen)}
+            className={cn(
+              "flex items-center gap-2 px-6 py-3 rounded-lg border transition-colors duration-200 font-medium text-base active:transform-none",
+              recordArmed
+                ? "bg-destructive text-destructive-foreground border-destructive hover:bg-destructive/90"
+                : recordOpen
+                  ? "bg-primary/10 text-primary border-primary/40"
+                  : "bg-background border-border text-foreground hover:bg-muted/30"
+            )}
+            title="Play tracks from pads or the keyboard and record them"
+          >
+            <span className={cn("w-2.5 h-2.5 rounded-full", recordArmed ? "bg-destructive-foreground animate-pulse" : "bg-destructive")} />
+            Record
+          </button>
+
+          <div className="flex items-center gap-3 px-6 py-3 rounded-lg bg-accent/10 border border-accent/20 text-accent-foreground font-medium text-base">
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v2a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM4 13a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zM16 13a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z" />
             </svg>
-            {gridSize} Steps
-          </button>
+            <input
+              type="number"
+              min={1}
+              max={MAX_STEPS}
+              value={gridSize}
+              onChange={(e) => changeGridSize(parseInt(e.target.value) || 1)}
+              className="w-14 h-8 px-2 text-sm text-center bg-background border border-border rounded-md"
+              aria-label="Pattern length in steps"
+            />
+            <span className="text-sm">Steps</span>
+            <select
+              value={resolution}
+              onChange={(e) => changeMeter(timeSignature, e.target.value as StepResolution)}
+              className="h-8 px-1 text-sm bg-background border border-border rounded-md"
+              aria-label="Step resolution"
+            >
+              {STEP_RESOLUTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={formatTimeSignature(timeSignature)}
+              onChange={(e) => changeMeter(parseTimeSignature(e.target.value), resolution)}
+              className="h-8 px-1 text-sm bg-background border border-border rounded-md"
+              aria-label="Time signature"
+            >
+              {TIME_SIGNATURES.map(signature => (
+                <option key={formatTimeSignature(signature)} value={formatTimeSignature(signature)}>
+                  {formatTimeSignature(signature)}
+                </option>
+              ))}
+            </select>
+          </div>
 
           <div className="flex items-center gap-4 ml-8 px-6 py-3 rounded-lg bg-gradient-to-r from-muted/10 to-muted/30 border border-border/50">
             <label htmlFor="tempo" className="text-sm font-medium text-foreground flex items-center gap-2">
@@ -345,22 +1245,76 @@ export default function StepSequencer({ className }: StepSequencerProps) {
               {tempo} BPM
             </span>
           </div>
+
+          <div className="flex items-center gap-4 px-6 py-3 rounded-lg bg-gradient-to-r from-muted/10 to-muted/30 border border-border/50">
+            <label htmlFor="groove" className="text-sm font-medium text-foreground">
+              Groove
+            </label>
+            <select
+              id="groove"
+              value={pattern.groove.templateId}
+              onChange={(e) => updateGroove({ templateId: e.target.value as GrooveSettings['templateId'] })}
+              className="p-1.5 bg-background border border-border rounded-md text-sm"
+            >
+              {GROOVE_TEMPLATES.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+            <input
+              type="range"
+              min={MIN_SWING}
+              max={MAX_SWING}
+              value={pattern.groove.swing}
+              onChange={(e) => updateGroove({ swing: parseInt(e.target.value) })}
+              disabled={grooveTemplate.pairSteps === 0 || grooveTemplate.fixedSwing !== undefined}
+              className="w-24 h-2 bg-muted rounded-lg appearance-none cursor-pointer slider disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Swing amount"
+            />
+            <span className="text-sm font-mono font-semibold text-foreground bg-background px-3 py-1.5 rounded-md border border-border min-w-[4rem] text-center shadow-sm">
+              {getEffectiveSwing(pattern.groove).toFixed(0)}%
+            </span>
+          </div>
         </div>
       </div>
 
       {/* Step Grid */}
       <div className="bg-card rounded-xl p-6 shadow-md border border-border/50 overflow-x-auto">
-        <div className="w-fit mx-auto">
+        <div ref={gridRef} className="w-fit mx-auto">
+          <EditToolbar
+            selection={selection}
+            selectMode={selectMode}
+            canPaste={clipboard !== null}
+            onToggleSelectMode={() => setSelectMode(!selectMode)}
+            onCopy={copySelection}
+            onPaste={pasteClipboard}
+            onNudge={(direction) => selection && setPattern(prev => nudgeSteps(prev, selection, direction))}
+            onReverse={() => selection && setPattern(prev => reverseSteps(prev, selection))}
+            onInvert={() => selection && setPattern(prev => invertSteps(prev, selection))}
+            onDouble={() => {
+              if (!selection) return
+              const { startTrack, endTrack } = normalizeSelection(selection)
+              setPattern(prev => doubleTracks(prev, startTrack, endTrack))
+            }}
+            onClear={clearSelection}
+            onDeselect={() => setSelection(null)}
+          />
+
                     {/* Step numbers */}
           <div className="flex gap-0.5 mb-3">
-            <div className="flex items-center justify-center text-sm font-medium text-muted-foreground w-[140px] h-7">
+            <div className="flex items-center justify-center text-sm font-medium text-muted-foreground w-[196px] h-7">
               Track
             </div>
+            <div className="flex items-center justify-center text-xs font-medium text-muted-foreground w-[60px] h-7">
+              Mute / Solo
+            </div>
+            <div className="flex items-center justify-center text-xs font-medium text-muted-foreground w-[128px] h-7">
+              Length / Speed
+            </div>
             <div className="w-1"></div>
             <div className="flex gap-0.5">
-              {Array.from({ length: gridSize }, (_, i) => (
+              {Array.from({ length: maxTrackLength }, (_, i) => (
                 <div key={i} className="flex">
-                  {i % 4 === 0 && i > 0 && <div className="w-1"></div>}
+                  {renderStepSpacer(i)}
                   <div
                     className={cn(
                       "h-7 w-7 flex items-center justify-center text-xs font-medium rounded-md transition-all duration-200",
@@ -377,12 +1331,50 @@ export default function StepSequencer({ className }: StepSequencerProps) {
           </div>
 
           {/* Sound rows */}
-          {sounds.map((sound, soundIndex) => (
-            <div key={sound.name} className="flex gap-0.5 mb-1.5">
+          {tracks.map((track, soundIndex) => {
+            const sound = track.sound
+            const audible = isTrackAudible(track, tracks, groups)
+            return (
+            <div
+              key={track.id}
+              onDragOver={(e) => {
+                if (!trackDrag) return
+                e.preventDefault()
+                if (trackDrag.to !== soundIndex) setTrackDrag({ ...trackDrag, to: soundIndex })
+              }}
+              onDrop={(e) => {
+                e.preventDefault()
+                if (trackDrag) moveTrack(trackDrag.from, trackDrag.to)
+                setTrackDrag(null)
+              }}
+              className={cn(
+                "flex gap-0.5 mb-1.5 rounded-lg",
+                trackDrag && trackDrag.to === soundIndex && trackDrag.from !== soundIndex && "ring-2 ring-primary/60",
+                trackDrag?.from === soundIndex && "opacity-50",
+                !audible && !trackDrag && "opacity-60"
+              )}
+            >
               {/* Sound name and controls */}
-              <div className="flex items-center justify-between px-3 rounded-lg bg-muted/30 border border-border/50 w-[140px] h-8">
+              <div className="flex items-center justify-between pl-1 pr-3 rounded-lg bg-muted/30 border border-border/50 w-[196px] h-8">
+                {/* Drag handle for reordering */}
+                <div
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    setTrackDrag({ from: soundIndex, to: soundIndex })
+                  }}
+                  onDragEnd={() => setTrackDrag(null)}
+                  className="text-muted-foreground/60 hover:text-foreground cursor-grab active:cursor-grabbing px-0.5 flex-shrink-0"
+                  title="Drag to reorder"
+                >
+                  <svg className="w-3 h-4" fill="currentColor" viewBox="0 0 12 16">
+                    <circle cx="4" cy="3" r="1.25" /><circle cx="8" cy="3" r="1.25" />
+                    <circle cx="4" cy="8" r="1.25" /><circle cx="8" cy="8" r="1.25" />
+                    <circle cx="4" cy="13" r="1.25" /><circle cx="8" cy="13" r="1.25" />
+                  </svg>
+                </div>
                 <button
-                  onClick={() => previewSound(soundIndex)}
+                  onClick={(e) => selectMode ? selectTrackRow(e, soundIndex) : previewSound(soundIndex)}
                   className="text-sm font-medium hover:text-primary transition-colors flex-1 text-left truncate flex items-center gap-2"
                   disabled={!isInitialized || loadingSounds.has(sound.filePath)}
                 >
@@ -392,19 +1384,33 @@ export default function StepSequencer({ className }: StepSequencerProps) {
                   {sound.name} {sound.fileIndex + 1}
                 </button>
                 <div className="flex items-center gap-1">
+                  {/* Chromatic mode button */}
+                  <button
+                    onClick={() => setChromaticTrack(chromaticTrack === soundIndex ? null : soundIndex)}
+                    className={cn(
+                      "text-muted-foreground hover:text-foreground p-0.5 rounded-md hover:bg-background/50 transition-all duration-200 flex-shrink-0",
+                      (chromaticTrack === soundIndex || track.tuning !== 0) && "text-primary"
+                    )}
+                    title="Chromatic mode"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5h16v14H4zM9 5v9m6-9v9M9 14v5m6-5v5" />
+                    </svg>
+                  </button>
+
                   {/* Effects button */}
                   <button
                     onClick={() => setEffectsPanelOpen(effectsPanelOpen === soundIndex ? null : soundIndex)}
                     className={cn(
                       "text-muted-foreground hover:text-foreground p-0.5 rounded-md hover:bg-background/50 transition-all duration-200 flex-shrink-0 relative",
-                      trackEffects[soundIndex].some(effect => effect.enabled) && "text-primary"
+                      track.effects.some(effect => effect.enabled) && "text-primary"
                     )}
                     title="Effects"
                   >
                     <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
                     </svg>
-                    {trackEffects[soundIndex].some(effect => effect.enabled) && (
+                    {track.effects.some(effect => effect.enabled) && (
                       <div className="absolute -top-0.5 -right-0.5 w-2 h-2 bg-primary rounded-full" />
                     )}
                   </button>
@@ -458,7 +1464,7 @@ export default function StepSequencer({ className }: StepSequencerProps) {
                                       fileIndex,
                                       filePath: file
                                     }
-                                    const isSelected = sounds[soundIndex].groupKey === groupKey && sounds[soundIndex].fileIndex === fileIndex
+                                    const isSelected = sound.groupKey === groupKey && sound.fileIndex === fileIndex
                                     
                                     return (
                                       <button
@@ -472,7 +1478,7 @@ export default function StepSequencer({ className }: StepSequencerProps) {
                                             try {
                                               setLoadingSounds(prev => new Set([...prev, file]))
                                               await audioEngine.resumeContext()
-                                              await audioEngine.playSound(file, 0.5, soundIndex)
+                                              await audioEngine.playSound(file, 0.5, track.id)
                                             } catch (error) {
                                               console.error(`Failed to preview ${file}:`, error)
                                             } finally {
@@ -509,38 +1515,361 @@ export default function StepSequencer({ className }: StepSequencerProps) {
                       </>
                     )}
                   </div>
+
+                  {/* Duplicate track */}
+                  <button
+                    onClick={() => duplicateTrackAt(soundIndex)}
+                    className="text-muted-foreground hover:text-foreground p-0.5 rounded-md hover:bg-background/50 transition-all duration-200 flex-shrink-0"
+                    title="Duplicate track"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                    </svg>
+                  </button>
+
+                  {/* Remove track */}
+                  <button
+                    onClick={() => removeTrack(soundIndex)}
+                    disabled={tracks.length <= 1}
+                    className="text-muted-foreground hover:text-destructive p-0.5 rounded-md hover:bg-background/50 transition-all duration-200 flex-shrink-0 disabled:opacity-30 disabled:hover:text-muted-foreground"
+                    title="Remove track"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
                 </div>
               </div>
 
+              {/* Mute and solo */}
+              <div className="flex items-center justify-center gap-1 w-[60px] h-8">
+                <button
+                  onClick={() => updateTrack(soundIndex, { muted: !track.muted })}
+                  className={cn(
+                    "w-6 h-7 text-xs font-semibold rounded-md border transition-colors",
+                    track.muted
+                      ? "bg-destructive/10 text-destructive border-destructive/40"
+                      : "bg-background text-muted-foreground border-border hover:text-foreground"
+                  )}
+                  title={groups.some(group => group.id === track.groupId && group.muted) ? 'Mute (group is muted)' : 'Mute'}
+                >
+                  M
+                </button>
+                <button
+                  onClick={(e) => soloTrack(e, soundIndex)}
+                  className={cn(
+                    "w-6 h-7 text-xs font-semibold rounded-md border transition-colors",
+                    track.solo
+                      ? "bg-primary/10 text-primary border-primary/40"
+                      : "bg-background text-muted-foreground border-border hover:text-foreground"
+                  )}
+                  title="Solo (Ctrl/Cmd+click to solo only this track)"
+                >
+                  S
+                </button>
+              </div>
+
+              {/* Track length, speed and Euclidean generator */}
+              <div className="flex items-center gap-1 w-[128px] h-8 px-1">
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_STEPS}
+                  value={pattern.timing[soundIndex].length}
+                  onChange={(e) => updateTrackTiming(soundIndex, { length: parseInt(e.target.value) || 1 })}
+                  className="w-11 h-7 px-1 text-xs text-center bg-background border border-border rounded-md"
+                  title="Track length in steps"
+                  aria-label={`${sound.name} track length`}
+                />
+                <select
+                  value={pattern.timing[soundIndex].speed}
+                  onChange={(e) => updateTrackTiming(soundIndex, { speed: e.target.value as TrackTiming['speed'] })}
+                  className="w-12 h-7 text-xs bg-background border border-border rounded-md"
+                  title="Track speed"
+                  aria-label={`${sound.name} track speed`}
+                >
+                  {TRACK_SPEEDS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    if (!pattern.euclid[soundIndex]) {
+                      setTrackEuclid(soundIndex, { ...DEFAULT_EUCLID })
+                    }
+                    setEuclidTrack(euclidTrack === soundIndex ? null : soundIndex)
+                  }}
+                  className={cn(
+                    "w-6 h-7 text-xs font-semibold rounded-md border transition-colors",
+                    pattern.euclid[soundIndex]
+                      ? "bg-primary/10 text-primary border-primary/40"
+                      : "bg-background text-muted-foreground border-border hover:text-foreground"
+                  )}
+                  title="Euclidean generator"
+                >
+                  E
+                </button>
+              </div>
+
               {/* Step buttons */}
               <div className="w-1"></div>
               <div className="flex gap-0.5">
-                {Array.from({ length: gridSize }, (_, stepIndex) => (
+                {pattern.steps[soundIndex].slice(0, pattern.timing[soundIndex].length).map((step, stepIndex) => (
                   <div key={stepIndex} className="flex">
-                    {stepIndex % 4 === 0 && stepIndex > 0 && <div className="w-1"></div>}
+                    {renderStepSpacer(stepIndex)}
                     <button
-                      onClick={() => toggleStep(soundIndex, stepIndex)}
+                      onClick={(e) => handleStepClick(e, soundIndex, stepIndex)}
+                      onPointerDown={(e) => handleStepPointerDown(e, soundIndex, stepIndex)}
+                      onPointerMove={handleStepPointerMove}
+                      onContextMenu={(e) => {
+                        e.preventDefault()
+                        setStepEditorOpen({ soundIndex, stepIndex })
+                      }}
+                      data-track={soundIndex}
+                      data-step={stepIndex}
                       className={cn(
-                        "h-8 w-7 rounded-md transition-colors duration-200 flex-shrink-0 active:transform-none",
-                        pattern[soundIndex][stepIndex]
+                        "h-8 w-7 rounded-md transition-colors duration-200 flex-shrink-0 active:transform-none touch-none relative",
+                        step.active
                           ? "bg-primary hover:bg-primary/90"
                           : "bg-muted/20 hover:bg-muted/40 border border-border/50",
-                        currentStep === stepIndex && isPlaying && pattern[soundIndex][stepIndex] && "ring-2 ring-primary ring-offset-1 ring-offset-background",
-                        currentStep === stepIndex && isPlaying && !pattern[soundIndex][stepIndex] && "bg-muted/40"
+                        trackSteps[soundIndex] === stepIndex && isPlaying && step.active && "ring-2 ring-primary ring-offset-1 ring-offset-background",
+                        trackSteps[soundIndex] === stepIndex && isPlaying && !step.active && "bg-muted/40",
+                        isStepSelected(selection, soundIndex, stepIndex) && "outline-2 outline-foreground/60 outline-offset-1"
                       )}
+                      style={step.active ? { opacity: 0.3 + step.velocity * 0.7 } : undefined}
+                      title={step.active ? `Velocity ${Math.round(step.velocity * 100)}% (drag, scroll or Shift+click to change, right-click for more)` : undefined}
                       aria-label={`Toggle ${sound.name} at step ${stepIndex + 1}`}
-                    />
+                    >
+                      {step.pitch !== 0 && (
+                        <span className={cn(
+                          "absolute top-0 inset-x-0 text-[8px] leading-tight font-semibold pointer-events-none",
+                          step.active ? "text-primary-foreground" : "text-muted-foreground"
+                        )}>
+                          {step.pitch > 0 ? `+${step.pitch}` : step.pitch}
+                        </span>
+                      )}
+                      {step.ratchet > 1 && (
+                        <span className={cn(
+                          "absolute bottom-0 inset-x-0 text-[9px] leading-tight font-semibold pointer-events-none",
+                          step.active ? "text-primary-foreground" : "text-muted-foreground"
+                        )}>
+                          ×{step.ratchet}
+                        </span>
+                      )}
+                      {hasParamLocks(step) && (
+                        <div className={cn(
+                          "absolute top-0.5 left-0.5 w-1.5 h-1.5 rounded-sm",
+                          step.active ? "bg-primary-foreground/80" : "bg-primary/70"
+                        )} />
+                      )}
+                      {hasTrigCondition(step) && (
+                        <div className={cn(
+                          "absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full",
+                          step.active ? "bg-primary-foreground" : "bg-primary"
+                        )} />
+                      )}
+                    </button>
                   </div>
                 ))}
               </div>
             </div>
-          ))}
+            )
+          })}
+
+          {/* Add track */}
+          <div className="flex mb-1.5">
+            <button
+              onClick={() => addTrack(DEFAULT_SOUNDS[tracks.length % DEFAULT_SOUNDS.length])}
+              className="flex items-center justify-center gap-1.5 w-[196px] h-8 rounded-lg border border-dashed border-border text-sm text-muted-foreground hover:text-foreground hover:bg-muted/30 transition-colors"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Add Track
+            </button>
+          </div>
+
+          {/* Accent lane */}
+          <div className="flex gap-0.5 mt-3">
+            <div className="flex items-center px-3 rounded-lg bg-muted/30 border border-border/50 w-[196px] h-6 text-sm font-medium text-muted-foreground">
+              Accent
+            </div>
+            <div className="w-[60px]"></div>
+            <div className="w-[128px]"></div>
+            <div className="w-1"></div>
+            <div className="flex gap-0.5">
+              {pattern.accents.slice(0, gridSize).map((accented, stepIndex) => (
+                <div key={stepIndex} className="flex">
+                  {renderStepSpacer(stepIndex)}
+                  <button
+                    onClick={() => toggleAccent(stepIndex)}
+                    className={cn(
+                      "h-6 w-7 rounded-md transition-colors duration-200 flex-shrink-0 active:transform-none",
+                      accented
+                        ? "bg-accent-foreground/70 hover:bg-accent-foreground/60"
+                        : "bg-muted/10 hover:bg-muted/30 border border-dashed border-border/50"
+                    )}
+                    aria-label={`Toggle accent at step ${stepIndex + 1}`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
         </div>
       </div>
 
+      {/* Chromatic mode */}
+      {chromaticTrack !== null && (
+        <PianoRoll
+          trackName={getTrackName(tracks[chromaticTrack])}
+          steps={pattern.steps[chromaticTrack].slice(0, pattern.timing[chromaticTrack].length)}
+          tuning={tracks[chromaticTrack].tuning}
+          playheadStep={isPlaying ? trackSteps[chromaticTrack] ?? null : null}
+          renderStepSpacer={renderStepSpacer}
+          onSetNote={(stepIndex, pitch) => setStepNote(chromaticTrack, stepIndex, pitch)}
+          onTuningChange={(tuning) => setTrackTuning(chromaticTrack, tuning)}
+          onPreview={(pitch) => previewSound(chromaticTrack, pitch)}
+          onClose={() => setChromaticTrack(null)}
+        />
+      )}
+
+      {/* Live recording */}
+      {recordOpen && (
+        <RecordPanel
+          trackNames={tracks.map(getTrackName)}
+          armed={recordArmed}
+          isPlaying={isPlaying}
+          settings={recordSettings}
+          onToggleArmed={() => setRecordArmed(!recordArmed)}
+          onSettingsChange={(changes) => setRecordSettings({ ...recordSettings, ...changes })}
+          onHit={playHit}
+          onClose={() => {
+            setRecordOpen(false)
+            setRecordArmed(false)
+          }}
+        />
+      )}
+
+      {/* Mixer */}
+      {mixerOpen && (
+        <MixerPanel
+          tracks={tracks}
+          buses={buses}
+          levels={levels}
+          onVolumeChange={(trackIndex, volume) => updateTrack(trackIndex, { volume })}
+          onPanChange={(trackIndex, pan) => updateTrack(trackIndex, { pan })}
+          onToggleMute={(trackIndex) => updateTrack(trackIndex, { muted: !tracks[trackIndex].muted })}
+          onSolo={soloTrack}
+          onSendChange={updateTrackSend}
+          onBusChange={updateBus}
+          onEditBusEffects={setBusEffectsOpen}
+          onAddBus={addBus}
+          onRemoveBus={removeBus}
+          onClose={() => setMixerOpen(false)}
+        />
+      )}
+      {mixerOpen && (
+        <MasterPanel
+          settings={master}
+          levels={masterLevels}
+          onChange={setMaster}
+          onResetClip={() => {
+            audioEngine.getMasterBus().resetClip()
+            setMasterLevels(prev => ({ ...prev, clipped: false }))
+          }}
+        />
+      )}
+
+      {/* Track groups */}
+      {groupsOpen && (
+        <GroupsPanel
+          groups={groups}
+          tracks={tracks}
+          onAddGroup={addGroup}
+          onGroupBySound={groupBySound}
+          onUpdateGroup={updateGroup}
+          onRemoveGroup={removeGroup}
+          onAssignTrack={(trackIndex, groupId) => updateTrack(trackIndex, { groupId })}
+          onClose={() => setGroupsOpen(false)}
+        />
+      )}
+
+      {/* Seeded pattern generator */}
+      {generatorOpen && (
+        <GeneratorPanel
+          trackNames={tracks.map(getTrackName)}
+          seed={generatorSettings.seed}
+          trackSettings={getGeneratorTracks(generatorSettings, tracks)}
+          mutateAmount={mutateAmount}
+          mutations={mutations}
+          onSeedChange={(seed) => {
+            setGeneratorSettings({ ...generatorSettings, seed })
+            setMutations(0)
+          }}
+          onTrackChange={(trackIndex, changes) => {
+            const track = tracks[trackIndex]
+            const current = getGeneratorTracks(generatorSettings, tracks)[trackIndex]
+            setGeneratorSettings({
+              ...generatorSettings,
+              tracks: { ...generatorSettings.tracks, [track.id]: { ...current, ...changes } }
+            })
+            setMutations(0)
+          }}
+          onMutateAmountChange={setMutateAmount}
+          onGenerate={generate}
+          onMutate={mutate}
+          onClose={() => setGeneratorOpen(false)}
+        />
+      )}
+
+      {/* Euclidean generator */}
+      {euclidTrack !== null && pattern.euclid[euclidTrack] && (
+        <EuclidPanel
+          trackName={getTrackName(tracks[euclidTrack])}
+          settings={pattern.euclid[euclidTrack]!}
+          length={pattern.timing[euclidTrack].length}
+          onChange={(changes) => setTrackEuclid(euclidTrack, { ...pattern.euclid[euclidTrack]!, ...changes })}
+          onLengthChange={(length) => updateTrackTiming(euclidTrack, { length })}
+          onDisable={() => {
+            setTrackEuclid(euclidTrack, null)
+            setEuclidTrack(null)
+          }}
+          onClose={() => setEuclidTrack(null)}
+        />
+      )}
+
+      {/* Patterns and song arrangement */}
+      <PatternBank
+        bank={bank}
+        currentSlot={currentSlot}
+        queuedSlot={queuedSlot}
+        isPlaying={isPlaying}
+        followingSong={isPlaying && songMode && song.length > 0}
+        onSelectSlot={selectSlot}
+      />
+
+      <SongArranger
+        song={song}
+        songMode={songMode}
+        currentSlot={currentSlot}
+        playingIndex={songPlayingIndex}
+        barsPerPattern={gridSize / stepsPerBar}
+        onToggleSongMode={() => setSongMode(!songMode)}
+        onAddEntry={addSongEntry}
+        onRemoveEntry={removeSongEntry}
+        onUpdateEntry={updateSongEntry}
+        onMoveEntry={moveSongEntry}
+      />
+
       {/* Pattern Info */}
       <div className="bg-card rounded-xl p-4 shadow-sm border border-border/50">
         <div className="flex justify-center gap-8 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Pattern:</span>
+            <span className="font-semibold text-foreground bg-muted/30 px-3 py-1 rounded-md">
+              {currentSlot}
+            </span>
+          </div>
           <div className="flex items-center gap-2">
             <span className="text-muted-foreground">Current Step:</span>
             <span className="font-semibold text-foreground bg-muted/30 px-3 py-1 rounded-md">
@@ -550,25 +1879,62 @@ export default function StepSequencer({ className }: StepSequencerProps) {
           <div className="flex items-center gap-2">
             <span className="text-muted-foreground">Active Steps:</span>
             <span className="font-semibold text-foreground bg-primary/10 text-primary px-3 py-1 rounded-md">
-              {pattern.map(track => track.slice(0, gridSize).filter(Boolean).length).reduce((a, b) => a + b, 0)}
+              {pattern.steps.map((track, soundIndex) => track.slice(0, pattern.timing[soundIndex].length).filter(step => step.active).length).reduce((a, b) => a + b, 0)}
             </span>
           </div>
         </div>
       </div>
 
+      {/* Step Editor */}
+      {stepEditorOpen !== null && (
+        <StepEditor
+          trackName={getTrackName(tracks[stepEditorOpen.soundIndex])}
+          stepIndex={stepEditorOpen.stepIndex}
+          step={pattern.steps[stepEditorOpen.soundIndex][stepEditorOpen.stepIndex]}
+          effects={tracks[stepEditorOpen.soundIndex].effects}
+          onChange={(changes) => editStep(stepEditorOpen.soundIndex, stepEditorOpen.stepIndex, changes)}
+          onClose={() => setStepEditorOpen(null)}
+        />
+      )}
+
       {/* Effects Panel */}
       {effectsPanelOpen !== null && (
         <EffectsPanel
           trackIndex={effectsPanelOpen}
-          trackName={`${sounds[effectsPanelOpen].name} ${sounds[effectsPanelOpen].fileIndex + 1}`}
-          effects={trackEffects[effectsPanelOpen]}
-          onAddEffect={handleAddEffect}
-          onRemoveEffect={handleRemoveEffect}
-          onUpdateEffect={handleUpdateEffect}
-          onToggleEffect={handleToggleEffect}
+          trackName={getTrackName(tracks[effectsPanelOpen])}
+          effects={tracks[effectsPanelOpen].effects}
+          onAddEffect={trackEffectHandlers.onAddEffect}
+          onRemoveEffect={trackEffectHandlers.onRemoveEffect}
+          onUpdateEffect={trackEffectHandlers.onUpdateEffect}
+          onToggleEffect={trackEffectHandlers.onToggleEffect}
+          onDuplicateEffect={trackEffectHandlers.onDuplicateEffect}
+          onMoveEffect={trackEffectHandlers.onMoveEffect}
+          onSetEffects={trackEffectHandlers.onSetEffects}
+          buses={buses}
+          sends={tracks[effectsPanelOpen].sends}
+          onSendChange={(busId, changes) => updateTrackSend(effectsPanelOpen, busId, changes)}
+          modulators={tracks[effectsPanelOpen].modulators}
+          onModulatorsChange={(modulators) => updateTrack(effectsPanelOpen, { modulators })}
           onClose={() => setEffectsPanelOpen(null)}
         />
       )}
+
+      {/* Aux bus effects */}
+      {busEffectsOpen !== null && (
+        <EffectsPanel
+          trackIndex={busEffectsOpen}
+          trackName={`${buses[busEffectsOpen].name} bus`}
+          effects={buses[busEffectsOpen].effects}
+          onAddEffect={busEffectHandlers.onAddEffect}
+          onRemoveEffect={busEffectHandlers.onRemoveEffect}
+          onUpdateEffect={busEffectHandlers.onUpdateEffect}
+          onToggleEffect={busEffectHandlers.onToggleEffect}
+          onDuplicateEffect={busEffectHandlers.onDuplicateEffect}
+          onMoveEffect={busEffectHandlers.onMoveEffect}
+          onSetEffects={busEffectHandlers.onSetEffects}
+          onClose={() => setBusEffectsOpen(null)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
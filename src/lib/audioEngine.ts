@@ -1,5 +1,7 @@
 import * as Tone from 'tone'
 import { effectsEngine } from './effectsEngine'
+import { masterBus } from './masterBus'
+import type { TrackId } from './tracks'
 
 // Simple audio engine using Web Audio API with effects support
 class AudioEngine {
@@ -82,7 +84,9 @@ class AudioEngine {
     }
   }
 
-  async playSound(filePath: string, volume: number = 1, trackIndex?: number) {
+  // Schedule a sound at an AudioContext time (defaults to now), optionally
+  // repitched by a number of semitones through the playback rate
+  async playSound(filePath: string, volume: number = 1, trackId?: TrackId, time?: number, semitones: number = 0) {
     if (!this.audioContext) return
 
     try {
@@ -93,44 +97,28 @@ class AudioEngine {
       const gainNode = this.audioContext.createGain()
       
       source.buffer = buffer
+      source.playbackRate.value = Math.pow(2, semitones / 12)
       gainNode.gain.value = volume
 
       source.connect(gainNode)
       
-      // Route audio through effects if available, otherwise direct connection
-      if (trackIndex !== undefined && this.toneInitialized) {
+      // Route audio through the track's effect chain when available, so its
+      // output controls everything the track plays (mutes cut tails too)
+      if (trackId !== undefined && this.toneInitialized) {
         try {
-          // Get the effect chain for this track
-          const effectChain = effectsEngine.getEffectChain(trackIndex)
-          
-          // Check if this track has any enabled effects
-          const hasEnabledEffects = effectChain.effects.some(effect => effect.enabled)
-          
-          if (hasEnabledEffects) {
-            // Since Tone.js is using the same AudioContext, we can connect directly
-            // Connect Web Audio gain node to Tone.js effect input
-            console.log(`Track ${trackIndex} has ${effectChain.effects.length} effects, ${effectChain.effects.filter(e => e.enabled).length} enabled`)
-            console.log('Effect chain:', effectChain.effects.map(e => `${e.type}(${e.enabled})`))
-            
-            gainNode.connect(effectChain.input.input as AudioNode)
-            
-            // Effect chain output is already connected to destination
-            
-            console.log(`Track ${trackIndex} using effects routing`)
-          } else {
-            // No enabled effects, use direct connection
-            gainNode.connect(this.audioContext.destination)
-          }
+          const effectChain = effectsEngine.getEffectChain(trackId)
+          gainNode.connect(effectChain.input.input as AudioNode)
         } catch (error) {
           console.error('Effects routing failed, using direct connection:', error)
           gainNode.connect(this.audioContext.destination)
         }
       } else {
-        // Direct connection (no effects or Tone.js not initialized)
+        // Direct connection (no track or Tone.js not initialized)
         gainNode.connect(this.audioContext.destination)
       }
       
-      source.start()
+      // Late buffers (still loading when their step came up) play immediately
+      source.start(Math.max(time ?? 0, this.audioContext.currentTime))
     } catch (error) {
       console.error(`Failed to play sound ${filePath}:`, error)
     }
@@ -156,11 +144,21 @@ class AudioEngine {
     }
   }
 
+  // Shared AudioContext, used by the transport as its clock
+  getAudioContext() {
+    return this.audioContext
+  }
+
   // Get effects engine instance
   getEffectsEngine() {
     return effectsEngine
   }
 
+  // Get master bus instance
+  getMasterBus() {
+    return masterBus
+  }
+
   // Check if Tone.js is initialized
   isToneInitialized() {
     return this.toneInitialized
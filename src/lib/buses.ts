@@ -0,0 +1,49 @@
+import type { TrackEffect } from './effectsEngine'
+import type { EffectType } from './effectRegistry'
+import { createEffectParams } from './effectRegistry'
+
+// Aux buses: shared effect chains that tracks feed through send levels, so one
+// reverb can serve every track
+
+export interface AuxBus {
+  id: string
+  name: string
+  effects: TrackEffect[]
+  volume: number // Return level in dB, MIN_VOLUME_DB-MAX_VOLUME_DB
+}
+
+export interface TrackSend {
+  level: number // 0-1
+  preFader: boolean // Taken before the track's fader, so it ignores volume changes
+}
+
+export const MIN_BUSES = 2
+export const MAX_BUSES = 4
+
+const NO_SEND: TrackSend = { level: 0, preFader: false }
+
+// Fully wet effect, since the bus only carries the sent signal
+function createBusEffect(type: EffectType): TrackEffect {
+  return {
+    id: `${type}-${Date.now()}`,
+    type,
+    params: { ...createEffectParams(type), wet: 1 },
+    enabled: true
+  }
+}
+
+export function createAuxBus(name: string, effects: TrackEffect[] = []): AuxBus {
+  return { id: `bus-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, name, effects, volume: 0 }
+}
+
+// A room and an echo to start with
+export function createDefaultBuses(): AuxBus[] {
+  return [
+    createAuxBus('Reverb', [createBusEffect('reverb')]),
+    createAuxBus('Delay', [createBusEffect('delay')])
+  ]
+}
+
+export function getTrackSend(sends: Record<string, TrackSend>, busId: string): TrackSend {
+  return sends[busId] ?? NO_SEND
+}
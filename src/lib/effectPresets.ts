@@ -0,0 +1,217 @@
+import type { TrackEffect } from './effectsEngine'
+import type { EffectType, EffectParams } from './effectRegistry'
+import { EFFECT_REGISTRY, createEffectParams, getSyncableParams } from './effectRegistry'
+import type { NoteValue } from './meter'
+import { NOTE_VALUES } from './meter'
+
+// Named effect chains, or single effects, that can be applied to any track or
+// bus. Factory presets ship with the app; saved presets live in localStorage and
+// can be shared as JSON files.
+
+export interface PresetEffect {
+  type: EffectType
+  params: EffectParams
+  enabled: boolean
+}
+
+export interface EffectPreset {
+  id: string
+  name: string
+  kind: 'chain' | 'effect' // A whole chain replaces the track's effects; an effect is added as a new slot
+  effects: PresetEffect[]
+  factory?: boolean
+}
+
+const STORAGE_KEY = 'effectPresets'
+const EXPORT_VERSION = 1
+
+const fx = (type: EffectType, params: EffectParams): PresetEffect => ({ type, params, enabled: true })
+
+export const FACTORY_PRESETS: EffectPreset[] = [
+  {
+    id: 'factory-telephone',
+    name: 'Telephone',
+    kind: 'chain',
+    factory: true,
+    effects: [
+      fx('filter', { type: 'highpass', frequency: 500, rolloff: -24, Q: 1 }),
+      fx('filter', { type: 'lowpass', frequency: 3000, rolloff: -24, Q: 1 }),
+      fx('distortion', { distortion: 0.3, oversample: '2x', wet: 0.4 })
+    ]
+  },
+  {
+    id: 'factory-cathedral',
+    name: 'Cathedral',
+    kind: 'chain',
+    factory: true,
+    effects: [
+      fx('eq3', { low: -4, mid: 0, high: 2 }),
+      fx('reverb', { roomSize: 0.95, decay: 9, wet: 0.6 })
+    ]
+  },
+  {
+    id: 'factory-broken-speaker',
+    name: 'Broken Speaker',
+    kind: 'chain',
+    factory: true,
+    effects: [
+      fx('distortion', { distortion: 0.9, oversample: 'none', wet: 0.8 }),
+      fx('bitcrusher', { bits: 4, wet: 0.6 }),
+      fx('filter', { type: 'bandpass', frequency: 1200, rolloff: -12, Q: 3 })
+    ]
+  },
+  {
+    id: 'factory-lo-fi',
+    name: 'Lo-Fi',
+    kind: 'chain',
+    factory: true,
+    effects: [
+      fx('filter', { type: 'lowpass', frequency: 2500, rolloff: -12, Q: 0.7 }),
+      fx('distortion', { distortion: 0.25, oversample: '2x', wet: 0.4 }),
+      fx('bitcrusher', { bits: 8, wet: 0.35 })
+    ]
+  },
+  {
+    id: 'factory-dub-echo',
+    name: 'Dub Echo',
+    kind: 'chain',
+    factory: true,
+    effects: [
+      fx('filter', { type: 'highpass', frequency: 300, rolloff: -12, Q: 1 }),
+      fx('pingPongDelay', { time: 0.375, feedback: 0.55, wet: 0.35, sync: { time: '1/8d' } }),
+      fx('reverb', { roomSize: 0.7, decay: 3, wet: 0.2 })
+    ]
+  },
+  {
+    id: 'factory-dotted-echo',
+    name: 'Dotted Eighth Echo',
+    kind: 'effect',
+    factory: true,
+    effects: [fx('delay', { time: 0.375, feedback: 0.4, wet: 0.3, sync: { time: '1/8d' } })]
+  },
+  {
+    id: 'factory-slow-wobble',
+    name: 'Slow Wobble',
+    kind: 'effect',
+    factory: true,
+    effects: [fx('autoFilter', { frequency: 0.5, baseFrequency: 150, octaves: 4, depth: 0.8, wet: 1, sync: { frequency: '1/2' } })]
+  },
+  {
+    id: 'factory-small-room',
+    name: 'Small Room',
+    kind: 'effect',
+    factory: true,
+    effects: [fx('reverb', { roomSize: 0.3, decay: 0.8, wet: 0.2 })]
+  }
+]
+
+function createPresetId(): string {
+  return `preset-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`
+}
+
+// Preset from a track's effects; the ids are dropped and assigned again when applied
+export function createPreset(name: string, kind: EffectPreset['kind'], effects: TrackEffect[]): EffectPreset {
+  return {
+    id: createPresetId(),
+    name,
+    kind,
+    effects: effects.map(({ type, params, enabled }) => ({ type, params: { ...params }, enabled }))
+  }
+}
+
+// Fresh track effects for a preset, with every parameter filled in. An explicit
+// empty sync keeps a preset without tempo sync from inheriting an old one.
+export function instantiatePreset(preset: EffectPreset): TrackEffect[] {
+  const now = Date.now()
+  return preset.effects.map((effect, index) => ({
+    id: `${effect.type}-${now}-${index}`,
+    type: effect.type,
+    params: { ...createEffectParams(effect.type), ...effect.params, sync: { ...effect.params.sync } },
+    enabled: effect.enabled
+  }))
+}
+
+// Keep only known effects and the parameters their schema declares
+function sanitizeEffect(value: unknown): PresetEffect | null {
+  if (!value || typeof value !== 'object') return null
+  const { type, params, enabled } = value as Record<string, unknown>
+  if (typeof type !== 'string' || !(type in EFFECT_REGISTRY)) return null
+
+  const definition = EFFECT_REGISTRY[type as EffectType]
+  const source = params && typeof params === 'object' ? params as Record<string, unknown> : {}
+  const clean: EffectParams = {}
+  definition.params.forEach(param => {
+    const paramValue = source[param.key]
+    if (param.kind === 'number' && typeof paramValue === 'number' && Number.isFinite(paramValue)) {
+      clean[param.key] = Math.min(param.max, Math.max(param.min, paramValue))
+    } else if (param.kind === 'enum' && param.options.some(option => option.value === paramValue)) {
+      clean[param.key] = paramValue as string | number
+    }
+  })
+  if (source.sync && typeof source.sync === 'object') {
+    const sync = source.sync as Record<string, unknown>
+    clean.sync = Object.fromEntries(getSyncableParams(type as EffectType)
+      .flatMap(({ key }) => NOTE_VALUES.some(note => note.value === sync[key]) ? [[key, sync[key] as NoteValue]] : []))
+  }
+  return { type: type as EffectType, params: clean, enabled: enabled !== false }
+}
+
+function sanitizePreset(value: unknown): EffectPreset | null {
+  if (!value || typeof value !== 'object') return null
+  const { name, kind, effects } = value as Record<string, unknown>
+  if (typeof name !== 'string' || !Array.isArray(effects)) return null
+
+  const clean = effects.map(sanitizeEffect).filter((effect): effect is PresetEffect => effect !== null)
+  if (clean.length === 0) return null
+  return {
+    id: createPresetId(),
+    name: name.trim() || 'Untitled',
+    kind: kind === 'effect' && clean.length === 1 ? 'effect' : 'chain',
+    effects: clean
+  }
+}
+
+// Saved presets, or none when storage is unavailable or corrupt
+export function loadUserPresets(): EffectPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+    return parsePresets(stored)
+  } catch (error) {
+    console.error('Failed to load effect presets:', error)
+    return []
+  }
+}
+
+export function saveUserPresets(presets: EffectPreset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, exportPresets(presets))
+  } catch (error) {
+    console.error('Failed to save effect presets:', error)
+  }
+}
+
+export function exportPresets(presets: EffectPreset[]): string {
+  return JSON.stringify({
+    version: EXPORT_VERSION,
+    presets: presets.map(({ name, kind, effects }) => ({ name, kind, effects }))
+  }, null, 2)
+}
+
+// Presets from exported JSON. Unknown effects and parameters are dropped; throws
+// when the text holds no usable presets.
+export function parsePresets(json: string): EffectPreset[] {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('Not a valid JSON file')
+  }
+
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown } | null)?.presets
+  if (!Array.isArray(list)) throw new Error('No presets found in file')
+
+  const presets = list.map(sanitizePreset).filter((preset): preset is EffectPreset => preset !== null)
+  if (presets.length === 0 && list.length > 0) throw new Error('No usable presets found in file')
+  return presets
+}
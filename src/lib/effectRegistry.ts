@@ -0,0 +1,631 @@
+import * as Tone from 'tone'
+import type { NoteValue } from './meter'
+import { getNoteSeconds } from './meter'
+
+// Every effect the engine can build. Each one declares its parameters, defaults,
+// how to create its Tone.js node and how to apply new values, so the engine and
+// the UI never switch over effect types. Adding an effect means adding its type
+// here and an entry to EFFECT_REGISTRY.
+
+export type EffectType =
+  | 'reverb' | 'delay' | 'pingPongDelay' | 'distortion' | 'bitcrusher' | 'filter' | 'autoFilter'
+  | 'chorus' | 'phaser' | 'tremolo' | 'pitchShift' | 'compressor' | 'eq3' | 'stereoWidener'
+
+// Note values for parameters that follow the tempo, by parameter key. A synced
+// parameter ignores its raw value until the sync is removed.
+export type TempoSync = Partial<Record<string, NoteValue>>
+
+export type EffectParamValue = number | string
+
+// Parameter values by key, as declared by the effect's schema
+export interface EffectParams {
+  [key: string]: EffectParamValue | TempoSync | undefined
+  sync?: TempoSync
+}
+
+// How a numeric value is shown
+export type ParamUnit = 'percent' | 'seconds' | 'milliseconds' | 'hertz' | 'decibels' | 'semitones' | 'ratio' | 'none'
+
+export interface NumberParamSchema {
+  kind: 'number'
+  key: string
+  label: string
+  min: number
+  max: number
+  step: number
+  unit: ParamUnit
+  lockable?: boolean // Can be overridden per step
+  sync?: { unit: 'seconds' | 'hertz'; max?: number } // Can follow the tempo as a note value
+  // Modulators can drive it, through a Tone.js signal in the parameter's own units
+  // or, for plain properties like distortion amount, a control the engine sets a
+  // few dozen times a second. The rest, like EQ gains that run as linear gain
+  // rather than decibels, only vary per step when lockable.
+  modulatable?: boolean
+}
+
+export interface EnumParamSchema {
+  kind: 'enum'
+  key: string
+  label: string
+  options: { value: EffectParamValue; label: string }[]
+}
+
+export type EffectParamSchema = NumberParamSchema | EnumParamSchema
+
+// Tone.js signal behind a numeric parameter
+export type ModulatableSignal = Tone.Param<Tone.Unit.UnitName> | Tone.Signal<Tone.Unit.UnitName>
+
+// Method syntax keeps definitions for specific node types assignable here
+export interface EffectDefinition<Node extends Tone.ToneAudioNode = Tone.ToneAudioNode> {
+  name: string
+  icon: string
+  params: EffectParamSchema[]
+  defaults: EffectParams
+  create(params: EffectParams): Node
+  // Applies only the parameters present. With a time, the change is scheduled on
+  // the audio clock.
+  update(node: Node, params: EffectParams, time?: number): void
+  // Signals of the modulatable parameters, by key
+  signals(node: Node): Partial<Record<string, ModulatableSignal>>
+  // Setters of the modulatable parameters that aren't signals, by key
+  controls?(node: Node): Partial<Record<string, (value: number) => void>>
+}
+
+// Any Tone.js Param or Signal, regardless of its unit
+interface SchedulableParam {
+  value: unknown
+  setValueAtTime(value: number, time: number): unknown
+}
+
+// Set a Tone.js signal now, or at an AudioContext time when one is given.
+// Skipped when the parameter isn't part of the update.
+function setSignal(param: SchedulableParam, value: number | undefined, time?: number) {
+  if (value === undefined) return
+  if (time === undefined) {
+    param.value = value
+  } else {
+    param.setValueAtTime(value, time)
+  }
+}
+
+interface PendingProperty {
+  time: number
+  timeout: ReturnType<typeof setTimeout>
+}
+
+// Property changes waiting for the audio clock, by node and property name
+const pendingProperties = new WeakMap<object, Map<string, PendingProperty[]>>()
+
+// Change a plain property now, or when the audio clock reaches the given time.
+// A change drops those still pending at or after its time, so the latest wins.
+function setProperty<T>(node: object, name: string, value: T | undefined, time: number | undefined, apply: (value: T) => void) {
+  if (value === undefined) return
+  const byName = pendingProperties.get(node) ?? new Map<string, PendingProperty[]>()
+  pendingProperties.set(node, byName)
+
+  const now = Tone.getContext().currentTime
+  const at = time ?? now
+  const kept = (byName.get(name) ?? []).filter(pending => {
+    if (pending.time < at) return true
+    clearTimeout(pending.timeout)
+    return false
+  })
+  byName.set(name, kept)
+
+  if (at <= now) {
+    apply(value)
+    return
+  }
+  const pending: PendingProperty = {
+    time: at,
+    timeout: setTimeout(() => {
+      byName.set(name, (byName.get(name) ?? []).filter(other => other !== pending))
+      apply(value)
+    }, (at - now) * 1000)
+  }
+  kept.push(pending)
+}
+
+const num = (params: EffectParams, key: string) => Number(params[key])
+
+// A parameter's value when the update includes it
+const maybeNum = (params: EffectParams, key: string) => params[key] === undefined ? undefined : Number(params[key])
+
+// Longest delay line, long enough for a whole note at 60 BPM
+export const MAX_DELAY_TIME = 4
+
+const WET: NumberParamSchema = { kind: 'number', key: 'wet', label: 'Wet', min: 0, max: 1, step: 0.01, unit: 'percent', lockable: true, modulatable: true }
+
+const RATE = (max: number): NumberParamSchema => ({
+  kind: 'number', key: 'frequency', label: 'Rate', min: 0.1, max, step: 0.1, unit: 'hertz', lockable: true, sync: { unit: 'hertz' }, modulatable: true
+})
+
+const reverb: EffectDefinition<Tone.Freeverb> = {
+  name: 'Reverb',
+  icon: '🏛️',
+  params: [
+    { kind: 'number', key: 'roomSize', label: 'Room Size', min: 0, max: 1, step: 0.01, unit: 'percent', lockable: true, modulatable: true },
+    { kind: 'number', key: 'decay', label: 'Decay', min: 0.1, max: 10, step: 0.1, unit: 'seconds', lockable: true, modulatable: true },
+    WET
+  ],
+  defaults: { roomSize: 0.4, decay: 1.5, wet: 0.3 },
+  create: params => new Tone.Freeverb({
+    roomSize: num(params, 'roomSize'),
+    dampening: num(params, 'decay') * 3000, // Scale decay to dampening range
+    wet: num(params, 'wet')
+  }),
+  signals: node => ({ roomSize: node.roomSize, wet: node.wet }),
+  controls: node => ({
+    decay: decay => {
+      node.dampening = decay * 3000
+    }
+  }),
+  update(node, params, time) {
+    setSignal(node.roomSize, maybeNum(params, 'roomSize'), time)
+    setProperty(node, 'dampening', maybeNum(params, 'decay'), time, decay => {
+      node.dampening = decay * 3000
+    })
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+const delay: EffectDefinition<Tone.FeedbackDelay> = {
+  name: 'Delay',
+  icon: '🔄',
+  params: [
+    { kind: 'number', key: 'time', label: 'Time', min: 0.01, max: 1, step: 0.01, unit: 'seconds', lockable: true, sync: { unit: 'seconds', max: MAX_DELAY_TIME }, modulatable: true },
+    { kind: 'number', key: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, unit: 'percent', lockable: true, modulatable: true },
+    WET
+  ],
+  defaults: { time: 0.25, feedback: 0.3, wet: 0.3 },
+  create: params => new Tone.FeedbackDelay({
+    delayTime: num(params, 'time'),
+    maxDelay: MAX_DELAY_TIME,
+    feedback: num(params, 'feedback'),
+    wet: num(params, 'wet')
+  }),
+  signals: node => ({ time: node.delayTime, feedback: node.feedback, wet: node.wet }),
+  update(node, params, time) {
+    setSignal(node.delayTime, maybeNum(params, 'time'), time)
+    setSignal(node.feedback, maybeNum(params, 'feedback'), time)
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+const pingPongDelay: EffectDefinition<Tone.PingPongDelay> = {
+  name: 'Ping-Pong',
+  icon: '🏓',
+  params: delay.params,
+  defaults: { time: 0.25, feedback: 0.3, wet: 0.3 },
+  create: params => new Tone.PingPongDelay({
+    delayTime: num(params, 'time'),
+    maxDelay: MAX_DELAY_TIME,
+    feedback: num(params, 'feedback'),
+    wet: num(params, 'wet')
+  }),
+  signals: node => ({ time: node.delayTime, feedback: node.feedback, wet: node.wet }),
+  update(node, params, time) {
+    setSignal(node.delayTime, maybeNum(params, 'time'), time)
+    setSignal(node.feedback, maybeNum(params, 'feedback'), time)
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+const distortion: EffectDefinition<Tone.Distortion> = {
+  name: 'Distortion',
+  icon: '⚡',
+  params: [
+    { kind: 'number', key: 'distortion', label: 'Distortion', min: 0, max: 1, step: 0.01, unit: 'percent', lockable: true, modulatable: true },
+    {
+      kind: 'enum',
+      key: 'oversample',
+      label: 'Oversample',
+      options: [
+        { value: 'none', label: 'None' },
+        { value: '2x', label: '2x' },
+        { value: '4x', label: '4x' }
+      ]
+    },
+    WET
+  ],
+  defaults: { distortion: 0.4, oversample: '2x', wet: 0.5 },
+  create: params => new Tone.Distortion({
+    distortion: num(params, 'distortion'),
+    oversample: params.oversample as OverSampleType,
+    wet: num(params, 'wet')
+  }),
+  signals: node => ({ wet: node.wet }),
+  controls: node => ({
+    distortion: distortion => {
+      node.distortion = distortion
+    }
+  }),
+  update(node, params, time) {
+    setProperty(node, 'distortion', maybeNum(params, 'distortion'), time, distortion => {
+      node.distortion = distortion
+    })
+    // Setting the oversampling rebuilds the curve, so only do it on a change
+    setProperty(node, 'oversample', params.oversample as OverSampleType | undefined, time, oversample => {
+      if (node.oversample !== oversample) node.oversample = oversample
+    })
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+const bitcrusher: EffectDefinition<Tone.BitCrusher> = {
+  name: 'Bitcrusher',
+  icon: '👾',
+  params: [
+    { kind: 'number', key: 'bits', label: 'Bits', min: 1, max: 16, step: 1, unit: 'none', lockable: true, modulatable: true },
+    WET
+  ],
+  defaults: { bits: 6, wet: 0.5 },
+  create(params) {
+    const crusher = new Tone.BitCrusher(num(params, 'bits'))
+    crusher.wet.value = num(params, 'wet')
+    return crusher
+  },
+  signals: node => ({ bits: node.bits, wet: node.wet }),
+  update(node, params, time) {
+    setSignal(node.bits, maybeNum(params, 'bits'), time)
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+const FILTER_TYPES: EnumParamSchema = {
+  kind: 'enum',
+  key: 'type',
+  label: 'Type',
+  options: [
+    { value: 'lowpass', label: 'Low Pass' },
+    { value: 'highpass', label: 'High Pass' },
+    { value: 'bandpass', label: 'Band Pass' }
+  ]
+}
+
+const filter: EffectDefinition<Tone.Filter> = {
+  name: 'Filter',
+  icon: '🎛️',
+  params: [
+    { kind: 'number', key: 'frequency', label: 'Frequency', min: 20, max: 20000, step: 10, unit: 'hertz', lockable: true, modulatable: true },
+    FILTER_TYPES,
+    {
+      kind: 'enum',
+      key: 'rolloff',
+      label: 'Rolloff',
+      options: [
+        { value: -12, label: '-12 dB/oct' },
+        { value: -24, label: '-24 dB/oct' },
+        { value: -48, label: '-48 dB/oct' },
+        { value: -96, label: '-96 dB/oct' }
+      ]
+    },
+    { kind: 'number', key: 'Q', label: 'Q', min: 0.1, max: 30, step: 0.1, unit: 'none', lockable: true, modulatable: true }
+  ],
+  defaults: { frequency: 1000, type: 'lowpass', rolloff: -12, Q: 1 },
+  create: params => new Tone.Filter({
+    frequency: num(params, 'frequency'),
+    type: params.type as BiquadFilterType,
+    rolloff: num(params, 'rolloff') as Tone.FilterRollOff,
+    Q: num(params, 'Q')
+  }),
+  signals: node => ({ frequency: node.frequency, Q: node.Q }),
+  update(node, params, time) {
+    setSignal(node.frequency, maybeNum(params, 'frequency'), time)
+    // Setting the rolloff rebuilds the filter cascade, so only do it on a change
+    setProperty(node, 'type', params.type as BiquadFilterType | undefined, time, type => {
+      if (node.type !== type) node.type = type
+    })
+    setProperty(node, 'rolloff', maybeNum(params, 'rolloff') as Tone.FilterRollOff | undefined, time, rolloff => {
+      if (node.rolloff !== rolloff) node.rolloff = rolloff
+    })
+    setSignal(node.Q, maybeNum(params, 'Q'), time)
+  }
+}
+
+const autoFilter: EffectDefinition<Tone.AutoFilter> = {
+  name: 'Auto-Filter',
+  icon: '🌊',
+  params: [
+    RATE(10),
+    { kind: 'number', key: 'baseFrequency', label: 'Base Frequency', min: 20, max: 2000, step: 10, unit: 'hertz', lockable: true },
+    { kind: 'number', key: 'octaves', label: 'Octaves', min: 0.5, max: 6, step: 0.1, unit: 'none', lockable: true },
+    { kind: 'number', key: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, unit: 'percent', lockable: true, modulatable: true },
+    WET
+  ],
+  defaults: { frequency: 1, baseFrequency: 200, octaves: 2.6, depth: 1, wet: 1 },
+  create: params => new Tone.AutoFilter({
+    frequency: num(params, 'frequency'),
+    baseFrequency: num(params, 'baseFrequency'),
+    octaves: num(params, 'octaves'),
+    depth: num(params, 'depth'),
+    wet: num(params, 'wet')
+  }).start(),
+  signals: node => ({ frequency: node.frequency, depth: node.depth, wet: node.wet }),
+  update(node, params, time) {
+    setSignal(node.frequency, maybeNum(params, 'frequency'), time)
+    setProperty(node, 'baseFrequency', maybeNum(params, 'baseFrequency'), time, baseFrequency => {
+      node.baseFrequency = baseFrequency
+    })
+    setProperty(node, 'octaves', maybeNum(params, 'octaves'), time, octaves => {
+      node.octaves = octaves
+    })
+    setSignal(node.depth, maybeNum(params, 'depth'), time)
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+const chorus: EffectDefinition<Tone.Chorus> = {
+  name: 'Chorus',
+  icon: '🎶',
+  params: [
+    RATE(10),
+    { kind: 'number', key: 'delayTime', label: 'Delay', min: 2, max: 20, step: 0.5, unit: 'milliseconds', lockable: true },
+    { kind: 'number', key: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, unit: 'percent', lockable: true },
+    WET
+  ],
+  defaults: { frequency: 1.5, delayTime: 3.5, depth: 0.7, wet: 0.5 },
+  create: params => new Tone.Chorus({
+    frequency: num(params, 'frequency'),
+    delayTime: num(params, 'delayTime'),
+    depth: num(params, 'depth'),
+    wet: num(params, 'wet')
+  }).start(),
+  signals: node => ({ frequency: node.frequency, wet: node.wet }),
+  update(node, params, time) {
+    setSignal(node.frequency, maybeNum(params, 'frequency'), time)
+    setProperty(node, 'delayTime', maybeNum(params, 'delayTime'), time, delayTime => {
+      node.delayTime = delayTime
+    })
+    setProperty(node, 'depth', maybeNum(params, 'depth'), time, depth => {
+      node.depth = depth
+    })
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+const phaser: EffectDefinition<Tone.Phaser> = {
+  name: 'Phaser',
+  icon: '🌀',
+  params: [
+    RATE(10),
+    { kind: 'number', key: 'octaves', label: 'Octaves', min: 1, max: 6, step: 0.1, unit: 'none', lockable: true },
+    { kind: 'number', key: 'baseFrequency', label: 'Base Frequency', min: 100, max: 1500, step: 10, unit: 'hertz', lockable: true },
+    { kind: 'number', key: 'Q', label: 'Q', min: 0.1, max: 20, step: 0.1, unit: 'none', lockable: true, modulatable: true },
+    WET
+  ],
+  defaults: { frequency: 0.5, octaves: 3, baseFrequency: 350, Q: 10, wet: 0.5 },
+  create: params => new Tone.Phaser({
+    frequency: num(params, 'frequency'),
+    octaves: num(params, 'octaves'),
+    baseFrequency: num(params, 'baseFrequency'),
+    Q: num(params, 'Q'),
+    wet: num(params, 'wet')
+  }),
+  signals: node => ({ frequency: node.frequency, Q: node.Q, wet: node.wet }),
+  update(node, params, time) {
+    setSignal(node.frequency, maybeNum(params, 'frequency'), time)
+    setProperty(node, 'octaves', maybeNum(params, 'octaves'), time, octaves => {
+      node.octaves = octaves
+    })
+    setProperty(node, 'baseFrequency', maybeNum(params, 'baseFrequency'), time, baseFrequency => {
+      node.baseFrequency = baseFrequency
+    })
+    setSignal(node.Q, maybeNum(params, 'Q'), time)
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+const tremolo: EffectDefinition<Tone.Tremolo> = {
+  name: 'Tremolo',
+  icon: '〰️',
+  params: [
+    RATE(20),
+    { kind: 'number', key: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, unit: 'percent', lockable: true, modulatable: true },
+    WET
+  ],
+  defaults: { frequency: 6, depth: 0.7, wet: 1 },
+  create: params => new Tone.Tremolo({
+    frequency: num(params, 'frequency'),
+    depth: num(params, 'depth'),
+    wet: num(params, 'wet')
+  }).start(),
+  signals: node => ({ frequency: node.frequency, depth: node.depth, wet: node.wet }),
+  update(node, params, time) {
+    setSignal(node.frequency, maybeNum(params, 'frequency'), time)
+    setSignal(node.depth, maybeNum(params, 'depth'), time)
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+const pitchShift: EffectDefinition<Tone.PitchShift> = {
+  name: 'Pitch Shift',
+  icon: '🎚️',
+  params: [
+    { kind: 'number', key: 'pitch', label: 'Pitch', min: -12, max: 12, step: 1, unit: 'semitones', lockable: true },
+    WET
+  ],
+  defaults: { pitch: 7, wet: 1 },
+  create: params => new Tone.PitchShift({ pitch: num(params, 'pitch'), wet: num(params, 'wet') }),
+  signals: node => ({ wet: node.wet }),
+  update(node, params, time) {
+    setProperty(node, 'pitch', maybeNum(params, 'pitch'), time, pitch => {
+      node.pitch = pitch
+    })
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+const compressor: EffectDefinition<Tone.Compressor> = {
+  name: 'Compressor',
+  icon: '🗜️',
+  params: [
+    { kind: 'number', key: 'threshold', label: 'Threshold', min: -60, max: 0, step: 1, unit: 'decibels', lockable: true, modulatable: true },
+    { kind: 'number', key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, unit: 'ratio', lockable: true, modulatable: true },
+    { kind: 'number', key: 'attack', label: 'Attack', min: 0.001, max: 0.5, step: 0.001, unit: 'seconds', modulatable: true },
+    { kind: 'number', key: 'release', label: 'Release', min: 0.01, max: 1, step: 0.01, unit: 'seconds', modulatable: true }
+  ],
+  defaults: { threshold: -24, ratio: 4, attack: 0.01, release: 0.15 },
+  create: params => new Tone.Compressor({
+    threshold: num(params, 'threshold'),
+    ratio: num(params, 'ratio'),
+    attack: num(params, 'attack'),
+    release: num(params, 'release')
+  }),
+  signals: node => ({ threshold: node.threshold, ratio: node.ratio, attack: node.attack, release: node.release }),
+  update(node, params, time) {
+    setSignal(node.threshold, maybeNum(params, 'threshold'), time)
+    setSignal(node.ratio, maybeNum(params, 'ratio'), time)
+    setSignal(node.attack, maybeNum(params, 'attack'), time)
+    setSignal(node.release, maybeNum(params, 'release'), time)
+  }
+}
+
+const EQ_GAIN = (key: string, label: string): NumberParamSchema => ({
+  kind: 'number', key, label, min: -24, max: 12, step: 0.5, unit: 'decibels', lockable: true
+})
+
+const eq3: EffectDefinition<Tone.EQ3> = {
+  name: 'EQ',
+  icon: '📊',
+  params: [
+    EQ_GAIN('low', 'Low'),
+    EQ_GAIN('mid', 'Mid'),
+    EQ_GAIN('high', 'High'),
+    { kind: 'number', key: 'lowFrequency', label: 'Low / Mid', min: 80, max: 1000, step: 10, unit: 'hertz', modulatable: true },
+    { kind: 'number', key: 'highFrequency', label: 'Mid / High', min: 1000, max: 10000, step: 50, unit: 'hertz', modulatable: true }
+  ],
+  defaults: { low: 0, mid: 0, high: 0, lowFrequency: 400, highFrequency: 2500 },
+  create: params => new Tone.EQ3({
+    low: num(params, 'low'),
+    mid: num(params, 'mid'),
+    high: num(params, 'high'),
+    lowFrequency: num(params, 'lowFrequency'),
+    highFrequency: num(params, 'highFrequency')
+  }),
+  signals: node => ({ lowFrequency: node.lowFrequency, highFrequency: node.highFrequency }),
+  update(node, params, time) {
+    setSignal(node.low, maybeNum(params, 'low'), time)
+    setSignal(node.mid, maybeNum(params, 'mid'), time)
+    setSignal(node.high, maybeNum(params, 'high'), time)
+    setSignal(node.lowFrequency, maybeNum(params, 'lowFrequency'), time)
+    setSignal(node.highFrequency, maybeNum(params, 'highFrequency'), time)
+  }
+}
+
+const stereoWidener: EffectDefinition<Tone.StereoWidener> = {
+  name: 'Widener',
+  icon: '↔️',
+  params: [
+    { kind: 'number', key: 'width', label: 'Width', min: 0, max: 1, step: 0.01, unit: 'percent', lockable: true, modulatable: true },
+    WET
+  ],
+  defaults: { width: 0.7, wet: 1 },
+  create: params => new Tone.StereoWidener({ width: num(params, 'width'), wet: num(params, 'wet') }),
+  signals: node => ({ width: node.width, wet: node.wet }),
+  update(node, params, time) {
+    setSignal(node.width, maybeNum(params, 'width'), time)
+    setSignal(node.wet, maybeNum(params, 'wet'), time)
+  }
+}
+
+export const EFFECT_REGISTRY: Record<EffectType, EffectDefinition> = {
+  reverb,
+  delay,
+  pingPongDelay,
+  distortion,
+  bitcrusher,
+  filter,
+  autoFilter,
+  chorus,
+  phaser,
+  tremolo,
+  pitchShift,
+  compressor,
+  eq3,
+  stereoWidener
+}
+
+export const EFFECT_TYPES = Object.keys(EFFECT_REGISTRY) as EffectType[]
+
+export function getEffectDefinition(type: EffectType): EffectDefinition {
+  return EFFECT_REGISTRY[type]
+}
+
+export function createEffectParams(type: EffectType): EffectParams {
+  return { ...EFFECT_REGISTRY[type].defaults }
+}
+
+// Numeric parameters that can be overridden per step (parameter locks)
+export function getLockableParams(type: EffectType): NumberParamSchema[] {
+  return EFFECT_REGISTRY[type].params.flatMap(param => param.kind === 'number' && param.lockable ? [param] : [])
+}
+
+// Numeric parameters that modulators can drive
+export function getModulatableParams(type: EffectType): NumberParamSchema[] {
+  return EFFECT_REGISTRY[type].params.flatMap(param => param.kind === 'number' && param.modulatable ? [param] : [])
+}
+
+// Numeric parameters that modulators can't drive
+export function getFixedParams(type: EffectType): NumberParamSchema[] {
+  return EFFECT_REGISTRY[type].params.flatMap(param => param.kind === 'number' && !param.modulatable ? [param] : [])
+}
+
+// Parameters that can follow the tempo
+export function getSyncableParams(type: EffectType): NumberParamSchema[] {
+  return EFFECT_REGISTRY[type].params.flatMap(param => param.kind === 'number' && param.sync ? [param] : [])
+}
+
+export function getTempoSync(params: EffectParams): TempoSync | undefined {
+  return params.sync
+}
+
+// Fill in defaults for parameters an effect was saved without, and replace
+// synced parameters with their value at the given tempo
+export function resolveEffectParams(type: EffectType, params: EffectParams, tempo: number): EffectParams {
+  const resolved: EffectParams = { ...EFFECT_REGISTRY[type].defaults, ...params }
+  const sync = getTempoSync(params)
+  if (!sync) return resolved
+
+  getSyncableParams(type).forEach(({ key, sync: syncUnit }) => {
+    const note = sync[key]
+    if (!note || !syncUnit) return
+    const seconds = getNoteSeconds(note, tempo)
+    const value = syncUnit.unit === 'hertz' ? 1 / seconds : seconds
+    resolved[key] = syncUnit.max === undefined ? value : Math.min(syncUnit.max, value)
+  })
+  return resolved
+}
+
+// Drop the sync of parameters given a fixed value, e.g. by a parameter lock
+export function withoutTempoSync(params: EffectParams, keys: string[]): EffectParams {
+  const sync = getTempoSync(params)
+  if (!sync) return params
+  return { ...params, sync: Object.fromEntries(Object.entries(sync).filter(([key]) => !keys.includes(key))) }
+}
+
+function getDecimals(step: number): number {
+  return step >= 1 ? 0 : Math.min(3, Math.ceil(-Math.log10(step)))
+}
+
+// Display text for a numeric parameter value
+export function formatEffectParam(param: NumberParamSchema, value: number): string {
+  switch (param.unit) {
+    case 'percent':
+      return `${(value * 100).toFixed(0)}%`
+    case 'seconds':
+      return value < 1 ? `${(value * 1000).toFixed(0)}ms` : `${value.toFixed(1)}s`
+    case 'milliseconds':
+      return `${value.toFixed(1)}ms`
+    case 'hertz':
+      return value >= 1000 ? `${(value / 1000).toFixed(1)}kHz` : `${value.toFixed(value < 10 ? 1 : 0)}Hz`
+    case 'decibels':
+      return `${value > 0 ? '+' : ''}${value.toFixed(1)} dB`
+    case 'semitones':
+      return `${value > 0 ? '+' : ''}${value} st`
+    case 'ratio':
+      return `${value.toFixed(1)}:1`
+    case 'none':
+      return value.toFixed(getDecimals(param.step))
+  }
+}
@@ -1,85 +1,124 @@
 import * as Tone from 'tone'
+import type { TrackId } from './tracks'
+import { moveItem } from './tracks'
+import type { EffectType, EffectParams, ModulatableSignal } from './effectRegistry'
+import { EFFECT_REGISTRY, getTempoSync, resolveEffectParams, withoutTempoSync, getModulatableParams } from './effectRegistry'
+import type { Modulator } from './modulation'
+import { MIN_ENVELOPE_TIME, getModulatorRate, getModulationRange } from './modulation'
+import { masterBus } from './masterBus'
 
-// Effect types that we'll support
-export type EffectType = 'reverb' | 'delay' | 'distortion' | 'filter'
-
-// Effect parameter interfaces
-export interface ReverbParams {
-  roomSize: number // 0-1
-  decay: number // 0-10
-  wet: number // 0-1
+// Effect configuration interface
+export interface TrackEffect {
+  id: string
+  type: EffectType
+  params: EffectParams
+  enabled: boolean
 }
 
-export interface DelayParams {
-  time: number // 0-1 (in seconds)
-  feedback: number // 0-0.9
-  wet: number // 0-1
+// Send from a track into an aux bus
+export interface ChainSend {
+  gain: Tone.Gain
+  level: number // 0-1
+  preFader: boolean
 }
 
-export interface DistortionParams {
-  distortion: number // 0-1
-  oversample: '2x' | '4x' | 'none'
-  wet: number // 0-1
+// Plain property a modulator drives at control rate, by reading its output
+interface ModulationControl {
+  meter: Tone.DCMeter
+  apply: (value: number) => void
+  value: number | null // Last value applied
 }
 
-export interface FilterParams {
-  frequency: number // 20-20000 Hz
-  type: 'lowpass' | 'highpass' | 'bandpass'
-  rolloff: -12 | -24 | -48 | -96
-  Q: number // 0.1-30
-  wet: number // 0-1
+// A modulator's connection into one effect parameter. The span and offset map
+// the modulator's 0-1 output onto the parameter's swept range; unlike a
+// Tone.Scale their range can be scheduled, which parameter locks need.
+interface ModulationConnection {
+  effectId: string
+  node: Tone.ToneAudioNode // The effect instance, which an undo may recreate
+  target: ModulatableSignal | ModulationControl
+  span: Tone.Multiply
+  offset: Tone.Add
+  getRange: (base: number) => [number, number] // Swept range around a parameter value
 }
 
-// Union type for all effect parameters
-export type EffectParams = ReverbParams | DelayParams | DistortionParams | FilterParams
+// A modulator running on a chain
+interface ActiveModulator {
+  settings: Modulator
+  source: Tone.LFO | Tone.Signal | Tone.Envelope // Outputs 0-1
+  clock: Tone.Clock | null // Steps the random shape
+  connections: Map<string, ModulationConnection> // By effectId:param
+}
 
-// Effect configuration interface
-export interface TrackEffect {
-  id: string
-  type: EffectType
-  params: EffectParams
-  enabled: boolean
+// Per-step override of some of an effect's parameters, held from time until endTime
+interface ParamLock {
+  params: Partial<EffectParams>
+  time: number
+  endTime: number
 }
 
-// Effect chain for a single track
+// Effect chain for a single track, or for an aux bus keyed by its bus id
 export interface EffectChain {
-  trackIndex: number
+  trackId: TrackId
   effects: TrackEffect[]
   toneEffects: Tone.ToneAudioNode[] // The actual Tone.js effect instances
   input: Tone.Gain // Input gain node for the chain
-  output: Tone.Gain // Output gain node for the chain
+  preFader: Tone.Gain // End of the insert effects; pre-fader sends tap here
+  output: Tone.Gain // Output gain node for the chain, carries the fader volume and mute
+  panner: Tone.Panner // After the output, feeds the destination and meters
+  meter: Tone.Meter
+  waveform: Tone.Waveform // Raw samples for the peak reading
+  volume: number // dB
+  muted: boolean
+  sends: Map<string, ChainSend> // By bus id
+  modulators: Map<string, ActiveModulator> // By modulator id
+  locks: Map<string, ParamLock[]> // Parameter locks that haven't ended yet, by effect id
+}
+
+// Post-fader channel levels in dB
+export interface TrackLevels {
+  peak: number
+  rms: number
+}
+
+// Faders at or below this level are silent
+export const MIN_VOLUME_DB = -48
+export const MAX_VOLUME_DB = 6
+
+// Length of the fade around a live chain rebuild, in seconds
+const REBUILD_FADE = 0.01
+
+// How often modulated properties that aren't signals are updated, in ms
+const CONTROL_INTERVAL_MS = 30
+
+// Pre-fader sends skip the fader but still follow the mute
+function getSendGain(chain: EffectChain, send: ChainSend): number {
+  return send.preFader && chain.muted ? 0 : send.level
+}
+
+// Which effects a chain holds, in order and with their bypass state. Chains only
+// need rewiring when this changes; parameter edits are applied in place.
+export function getEffectStructure(effects: TrackEffect[]): string {
+  return effects.map(effect => `${effect.id}:${effect.enabled ? 'on' : 'off'}`).join(',')
+}
+
+// Smallest change worth applying to a modulated property
+const CONTROL_TOLERANCE = 1e-4
+
+function isControl(target: ModulatableSignal | ModulationControl): target is ModulationControl {
+  return 'meter' in target
 }
 
-// Default effect parameters
-export const DEFAULT_EFFECT_PARAMS: Record<EffectType, EffectParams> = {
-  reverb: {
-    roomSize: 0.4,
-    decay: 1.5,
-    wet: 0.3
-  } as ReverbParams,
-  delay: {
-    time: 0.25,
-    feedback: 0.3,
-    wet: 0.3
-  } as DelayParams,
-  distortion: {
-    distortion: 0.4,
-    oversample: '2x',
-    wet: 0.5
-  } as DistortionParams,
-  filter: {
-    frequency: 1000,
-    type: 'lowpass',
-    rolloff: -12,
-    Q: 1,
-    wet: 1.0
-  } as FilterParams
+// Linear gain for a fader level
+export function getChannelGain(volume: number, muted: boolean): number {
+  return muted || volume <= MIN_VOLUME_DB ? 0 : Tone.dbToGain(volume)
 }
 
 // Effects Engine class to manage all effect chains
 export class EffectsEngine {
-  private effectChains: Map<number, EffectChain> = new Map()
+  private effectChains: Map<TrackId, EffectChain> = new Map()
   private isInitialized = false
+  private tempo = 120 // BPM that synced parameters resolve against
+  private controlTimer: ReturnType<typeof setInterval> | null = null
 
   async initialize() {
     if (this.isInitialized) return
@@ -90,41 +129,57 @@ export class EffectsEngine {
   }
 
   // Create an effect chain for a track
-  createEffectChain(trackIndex: number): EffectChain {
+  createEffectChain(trackId: TrackId): EffectChain {
     const input = new Tone.Gain(1)
+    const preFader = new Tone.Gain(1)
     const output = new Tone.Gain(1)
+    const panner = new Tone.Panner(0)
+    const meter = new Tone.Meter({ smoothing: 0.8 })
+    const waveform = new Tone.Waveform(256)
     
     // Connect input directly to output initially (bypass)
-    input.connect(output)
+    input.connect(preFader)
+    preFader.connect(output)
     
-    // Connect output to destination immediately and leave it connected
-    output.connect(Tone.getDestination())
+    // Connect the channel strip to the master bus immediately and leave it connected
+    output.connect(panner)
+    panner.connect(masterBus.getInput())
+    panner.fan(meter, waveform)
     
     const chain: EffectChain = {
-      trackIndex,
+      trackId,
       effects: [],
       toneEffects: [],
       input,
-      output
+      preFader,
+      output,
+      panner,
+      meter,
+      waveform,
+      volume: 0,
+      muted: false,
+      sends: new Map(),
+      modulators: new Map(),
+      locks: new Map()
     }
     
-    console.log(`Created effect chain for track ${trackIndex}, connected to destination`)
-    this.effectChains.set(trackIndex, chain)
+    console.log(`Created effect chain for track ${trackId}, connected to master bus`)
+    this.effectChains.set(trackId, chain)
     return chain
   }
 
   // Get effect chain for a track (create if doesn't exist)
-  getEffectChain(trackIndex: number): EffectChain {
-    let chain = this.effectChains.get(trackIndex)
+  getEffectChain(trackId: TrackId): EffectChain {
+    let chain = this.effectChains.get(trackId)
     if (!chain) {
-      chain = this.createEffectChain(trackIndex)
+      chain = this.createEffectChain(trackId)
     }
     return chain
   }
 
-  // Add an effect to a track's chain
-  addEffect(trackIndex: number, effect: TrackEffect): void {
-    const chain = this.getEffectChain(trackIndex)
+  // Add an effect to a track's chain, at the end unless a slot index is given
+  addEffect(trackId: TrackId, effect: TrackEffect, index?: number): void {
+    const chain = this.getEffectChain(trackId)
     
     // Create the Tone.js effect instance
     const toneEffect = this.createToneEffect(effect)
@@ -133,21 +188,22 @@ export class EffectsEngine {
       return
     }
 
-    console.log(`Adding effect ${effect.type} to track ${trackIndex}`)
+    console.log(`Adding effect ${effect.type} to track ${trackId}`)
 
-    // Add to chain configuration
-    chain.effects.push(effect)
-    chain.toneEffects.push(toneEffect)
+    // Add to chain configuration; the copy keeps engine updates out of React state
+    const slot = index ?? chain.effects.length
+    chain.effects.splice(slot, 0, { ...effect })
+    chain.toneEffects.splice(slot, 0, toneEffect)
     
     // Rebuild the effect chain connections
     this.rebuildEffectChain(chain)
     
-    console.log(`Track ${trackIndex} now has ${chain.effects.length} effects`)
+    console.log(`Track ${trackId} now has ${chain.effects.length} effects`)
   }
 
   // Remove an effect from a track's chain
-  removeEffect(trackIndex: number, effectId: string): void {
-    const chain = this.getEffectChain(trackIndex)
+  removeEffect(trackId: TrackId, effectId: string): void {
+    const chain = this.getEffectChain(trackId)
     const effectIndex = chain.effects.findIndex(e => e.id === effectId)
     
     if (effectIndex === -1) return
@@ -164,11 +220,12 @@ export class EffectsEngine {
     
     // Rebuild the effect chain connections
     this.rebuildEffectChain(chain)
+    this.refreshModulators(chain)
   }
 
   // Update effect parameters
-  updateEffect(trackIndex: number, effectId: string, params: Partial<EffectParams>): void {
-    const chain = this.getEffectChain(trackIndex)
+  updateEffect(trackId: TrackId, effectId: string, params: Partial<EffectParams>): void {
+    const chain = this.getEffectChain(trackId)
     const effectIndex = chain.effects.findIndex(e => e.id === effectId)
     
     if (effectIndex === -1) return
@@ -179,111 +236,362 @@ export class EffectsEngine {
     // Update the effect configuration
     effect.params = { ...effect.params, ...params }
     
-    // Update the Tone.js effect parameters
+    // Update the Tone.js effect parameters, and the ranges modulators sweep around them
     this.updateToneEffectParams(toneEffect, effect.type, effect.params)
+    this.refreshModulators(chain)
+  }
+
+  // Hold a parameter lock from time until endTime on the audio clock, then return
+  // the locked parameters to the effect's params. Only the locked parameters are
+  // touched, and the stored params stay as they are.
+  lockEffect(trackId: TrackId, effectId: string, params: Partial<EffectParams>, time: number, endTime: number): void {
+    const chain = this.getEffectChain(trackId)
+    const effectIndex = chain.effects.findIndex(e => e.id === effectId)
+    if (effectIndex === -1) return
+
+    const lock: ParamLock = { params, time, endTime }
+    const now = Tone.immediate()
+    chain.locks.set(effectId, [...(chain.locks.get(effectId) ?? []).filter(other => other.endTime > now), lock])
+    this.scheduleLock(chain, effectIndex, lock, now)
+  }
+
+  private scheduleLock(chain: EffectChain, effectIndex: number, lock: ParamLock, now: number): void {
+    const effect = chain.effects[effectIndex]
+    const toneEffect = chain.toneEffects[effectIndex]
+    const keys = Object.keys(lock.params).filter(key => key !== 'sync')
+
+    // A locked value wins over the synced one it replaces, unless the lock brings its own sync
+    const locked: EffectParams = { ...effect.params, ...lock.params }
+    const lockedParams = 'sync' in lock.params ? locked : withoutTempoSync(locked, keys)
+
+    // A modulated parameter ignores its own value, so its swept range moves instead
+    const modulated = new Map(keys.flatMap(key => {
+      const connection = this.getConnection(chain, effect.id, key)
+      return connection ? [[key, connection]] : []
+    }))
+    const direct = keys.filter(key => !modulated.has(key))
+    const setRanges = (params: EffectParams, time: number) => {
+      const resolved = resolveEffectParams(effect.type, params, this.tempo)
+      modulated.forEach((connection, key) => this.setConnectionRange(connection, Number(resolved[key]), time))
+    }
+
+    const time = Math.max(lock.time, now)
+    this.updateToneEffectParams(toneEffect, effect.type, lockedParams, time, direct)
+    setRanges(lockedParams, time)
+    this.updateToneEffectParams(toneEffect, effect.type, effect.params, lock.endTime, direct)
+    setRanges(effect.params, lock.endTime)
+  }
+
+  // Edits and modulator changes replace what's scheduled on the parameters and
+  // ranges, so schedule the pending locks again, returning to the current params
+  private rescheduleLocks(chain: EffectChain): void {
+    const now = Tone.immediate()
+    chain.locks.forEach((locks, effectId) => {
+      const effectIndex = chain.effects.findIndex(effect => effect.id === effectId)
+      const pending = locks.filter(lock => lock.endTime > now)
+      if (effectIndex === -1 || pending.length === 0) {
+        chain.locks.delete(effectId)
+        return
+      }
+      chain.locks.set(effectId, pending)
+      pending.forEach(lock => this.scheduleLock(chain, effectIndex, lock, now))
+    })
+  }
+
+  // Re-resolve every tempo-synced parameter at a new tempo
+  setTempo(tempo: number): void {
+    if (this.tempo === tempo) return
+    this.tempo = tempo
+
+    this.effectChains.forEach(chain => {
+      chain.effects.forEach(effect => {
+        if (getTempoSync(effect.params)) {
+          this.updateEffect(chain.trackId, effect.id, {})
+        }
+      })
+      chain.modulators.forEach(active => this.updateModulatorSource(active))
+    })
   }
 
   // Toggle effect on/off
-  toggleEffect(trackIndex: number, effectId: string): void {
-    const chain = this.getEffectChain(trackIndex)
+  toggleEffect(trackId: TrackId, effectId: string): void {
+    const chain = this.getEffectChain(trackId)
     const effect = chain.effects.find(e => e.id === effectId)
     
     if (!effect) return
     
     effect.enabled = !effect.enabled
-    this.rebuildEffectChain(chain)
+    this.fadeRebuildEffectChain(chain)
   }
 
-  // Create a Tone.js effect instance based on type and parameters
-  private createToneEffect(effect: TrackEffect): Tone.ToneAudioNode | null {
-    switch (effect.type) {
-      case 'reverb': {
-        const reverbParams = effect.params as ReverbParams
-        return new Tone.Freeverb({
-          roomSize: reverbParams.roomSize,
-          dampening: reverbParams.decay * 3000, // Scale decay to dampening range
-          wet: reverbParams.wet
-        })
+  // Move an effect to another slot; the signal flows through slots in order
+  moveEffect(trackId: TrackId, fromIndex: number, toIndex: number): void {
+    const chain = this.getEffectChain(trackId)
+    if (fromIndex === toIndex || !chain.effects[fromIndex] || !chain.effects[toIndex]) return
+
+    chain.effects = moveItem(chain.effects, fromIndex, toIndex)
+    chain.toneEffects = moveItem(chain.toneEffects, fromIndex, toIndex)
+    this.fadeRebuildEffectChain(chain)
+  }
+
+  // Make a track's chain match a list of effects, e.g. after undo. Existing
+  // Tone.js nodes are kept and updated, missing ones created and stale ones disposed.
+  // When only parameters differ, nodes are updated in place without rewiring.
+  syncTrackEffects(trackId: TrackId, effects: TrackEffect[]): void {
+    const chain = this.getEffectChain(trackId)
+
+    if (getEffectStructure(chain.effects) === getEffectStructure(effects)) {
+      effects.forEach((effect, index) => {
+        if (effect.params === chain.effects[index].params) return
+        chain.effects[index] = { ...effect }
+        this.updateToneEffectParams(chain.toneEffects[index], effect.type, effect.params)
+      })
+      this.refreshModulators(chain)
+      return
+    }
+
+    chain.effects.forEach((effect, index) => {
+      if (effects.some(e => e.id === effect.id)) return
+      const toneEffect = chain.toneEffects[index]
+      if (toneEffect && 'dispose' in toneEffect) {
+        (toneEffect as { dispose: () => void }).dispose()
       }
-      
-      case 'delay': {
-        const delayParams = effect.params as DelayParams
-        return new Tone.FeedbackDelay({
-          delayTime: delayParams.time,
-          feedback: delayParams.feedback,
-          wet: delayParams.wet
-        })
+    })
+
+    const nextEffects: TrackEffect[] = []
+    const nextToneEffects: Tone.ToneAudioNode[] = []
+    effects.forEach(effect => {
+      const index = chain.effects.findIndex(e => e.id === effect.id)
+      const toneEffect = index === -1 ? this.createToneEffect(effect) : chain.toneEffects[index]
+      if (!toneEffect) return
+
+      if (index !== -1) {
+        this.updateToneEffectParams(toneEffect, effect.type, effect.params)
       }
-      
-      case 'distortion': {
-        const distortionParams = effect.params as DistortionParams
-        return new Tone.Distortion({
-          distortion: distortionParams.distortion,
-          oversample: distortionParams.oversample,
-          wet: distortionParams.wet
-        })
+      nextEffects.push({ ...effect })
+      nextToneEffects.push(toneEffect)
+    })
+
+    chain.effects = nextEffects
+    chain.toneEffects = nextToneEffects
+    this.fadeRebuildEffectChain(chain)
+    this.refreshModulators(chain)
+  }
+
+  // Make a track's modulators match its settings. Sources are only rebuilt when
+  // their kind or shape changes, so an LFO keeps its phase while being edited.
+  setTrackModulators(trackId: TrackId, modulators: Modulator[]): void {
+    const chain = this.getEffectChain(trackId)
+
+    chain.modulators.forEach((active, id) => {
+      if (modulators.some(modulator => modulator.id === id)) return
+      this.disposeModulator(chain, active)
+      chain.modulators.delete(id)
+    })
+
+    modulators.forEach(settings => {
+      let active = chain.modulators.get(settings.id)
+      if (active && (active.settings.kind !== settings.kind || active.settings.shape !== settings.shape)) {
+        this.disposeModulator(chain, active)
+        active = undefined
       }
-      
-      case 'filter': {
-        const filterParams = effect.params as FilterParams
-        return new Tone.Filter({
-          frequency: filterParams.frequency,
-          type: filterParams.type,
-          rolloff: filterParams.rolloff,
-          Q: filterParams.Q
-        })
+      if (!active) {
+        active = this.createModulator(settings)
+        chain.modulators.set(settings.id, active)
       }
-      
-      default:
-        return null
+      active.settings = settings
+      this.updateModulatorSource(active)
+    })
+    this.refreshModulators(chain)
+  }
+
+  // Fire a track's envelopes, on each hit of its steps
+  triggerModulators(trackId: TrackId, time: number): void {
+    this.effectChains.get(trackId)?.modulators.forEach(({ source }) => {
+      if (source instanceof Tone.Envelope) source.triggerAttack(time)
+    })
+  }
+
+  private createModulator(settings: Modulator): ActiveModulator {
+    if (settings.kind === 'envelope') {
+      const source = new Tone.Envelope({ attack: MIN_ENVELOPE_TIME, decay: MIN_ENVELOPE_TIME, sustain: 0, release: MIN_ENVELOPE_TIME })
+      return { settings, source, clock: null, connections: new Map() }
+    }
+
+    // Tone.js LFOs have no random shape; hold a new value at each tick instead
+    if (settings.shape === 'random') {
+      const source = new Tone.Signal(0.5)
+      const clock = new Tone.Clock(time => source.setValueAtTime(Math.random(), time), 1).start()
+      return { settings, source, clock, connections: new Map() }
     }
+
+    const source = new Tone.LFO({ type: settings.shape, frequency: 1, min: 0, max: 1 }).start()
+    return { settings, source, clock: null, connections: new Map() }
   }
 
-  // Update Tone.js effect parameters
-  private updateToneEffectParams(toneEffect: Tone.ToneAudioNode, type: EffectType, params: EffectParams): void {
-    switch (type) {
-      case 'reverb': {
-        const reverb = toneEffect as Tone.Freeverb
-        const reverbParams = params as ReverbParams
-        reverb.roomSize.value = reverbParams.roomSize
-        reverb.dampening = reverbParams.decay * 3000 // Scale decay to dampening range
-        reverb.wet.value = reverbParams.wet
-        break
-      }
-      
-      case 'delay': {
-        const delay = toneEffect as Tone.FeedbackDelay
-        const delayParams = params as DelayParams
-        delay.delayTime.value = delayParams.time
-        delay.feedback.value = delayParams.feedback
-        delay.wet.value = delayParams.wet
-        break
-      }
-      
-      case 'distortion': {
-        const distortion = toneEffect as Tone.Distortion
-        const distortionParams = params as DistortionParams
-        distortion.distortion = distortionParams.distortion
-        distortion.oversample = distortionParams.oversample
-        distortion.wet.value = distortionParams.wet
-        break
-      }
-      
-      case 'filter': {
-        const filter = toneEffect as Tone.Filter
-        const filterParams = params as FilterParams
-        filter.frequency.value = filterParams.frequency
-        filter.type = filterParams.type
-        filter.rolloff = filterParams.rolloff
-        filter.Q.value = filterParams.Q
-        break
-      }
+  private updateModulatorSource({ settings, source, clock }: ActiveModulator): void {
+    const rate = getModulatorRate(settings, this.tempo)
+    if (source instanceof Tone.LFO) {
+      source.frequency.value = rate
+    } else if (source instanceof Tone.Envelope) {
+      source.attack = Math.max(MIN_ENVELOPE_TIME, settings.attack)
+      source.decay = Math.max(MIN_ENVELOPE_TIME, settings.decay)
+    }
+    if (clock) clock.frequency.value = rate
+  }
+
+  // Connect each modulator to the parameters it targets and set the ranges they
+  // sweep from the current parameter values. Targets whose effect is gone, or
+  // whose parameter another modulator already drives, are skipped. Runs after
+  // every edit, so it also puts back the pending parameter locks the edit dropped.
+  private refreshModulators(chain: EffectChain): void {
+    const driven = new Set<string>()
+    chain.modulators.forEach(active => {
+      const wanted = new Set<string>()
+      active.settings.targets.forEach(target => {
+        const key = `${target.effectId}:${target.param}`
+        const index = chain.effects.findIndex(effect => effect.id === target.effectId)
+        if (index === -1 || driven.has(key)) return
+
+        const effect = chain.effects[index]
+        const node = chain.toneEffects[index]
+        const definition = EFFECT_REGISTRY[effect.type]
+        const param = getModulatableParams(effect.type).find(param => param.key === target.param)
+        // A signal to connect to, or else a property setter to drive at control rate
+        const input = definition.signals(node)[target.param] ?? definition.controls?.(node)[target.param]
+        if (!param || !input) return
+        driven.add(key)
+        wanted.add(key)
+
+        // Effects recreated by an undo have new nodes and signals
+        let connection = active.connections.get(key)
+        if (connection && connection.node !== node) {
+          this.releaseConnection(chain, connection)
+          connection = undefined
+        }
+        if (!connection) {
+          const span = new Tone.Multiply(1)
+          const offset = new Tone.Add(0)
+          active.source.chain(span, offset)
+          let connectionTarget: ModulatableSignal | ModulationControl
+          if (typeof input === 'function') {
+            connectionTarget = { meter: new Tone.DCMeter(), apply: input, value: null }
+            offset.connect(connectionTarget.meter)
+          } else {
+            offset.connect(input)
+            // The offset now carries the whole value; the parameter's own value stays at 0
+            input.overridden = true
+            connectionTarget = input
+          }
+          connection = { effectId: effect.id, node, target: connectionTarget, span, offset, getRange: base => [base, base] }
+          active.connections.set(key, connection)
+        }
+
+        const { kind } = active.settings
+        connection.getRange = base => getModulationRange(kind, base, target.depth, param.min, param.max)
+        const base = Number(resolveEffectParams(effect.type, effect.params, this.tempo)[param.key])
+        this.setConnectionRange(connection, base)
+        // An edit may have set the property itself, so apply the modulator again
+        if (isControl(connection.target)) connection.target.value = null
+      })
+
+      active.connections.forEach((connection, key) => {
+        if (wanted.has(key)) return
+        this.releaseConnection(chain, connection)
+        active.connections.delete(key)
+      })
+    })
+    this.rescheduleLocks(chain)
+    this.updateControlTimer()
+  }
+
+  // Poll modulated properties only while some exist
+  private updateControlTimer(): void {
+    const controls = [...this.effectChains.values()].some(chain =>
+      [...chain.modulators.values()].some(active =>
+        [...active.connections.values()].some(connection => isControl(connection.target))))
+    if (controls && this.controlTimer === null) {
+      this.controlTimer = setInterval(() => this.applyControls(), CONTROL_INTERVAL_MS)
+    } else if (!controls && this.controlTimer !== null) {
+      clearInterval(this.controlTimer)
+      this.controlTimer = null
+    }
+  }
+
+  // Set each modulated property to the modulator's current output, when it moved
+  private applyControls(): void {
+    this.effectChains.forEach(chain => {
+      chain.modulators.forEach(active => {
+        active.connections.forEach(({ target }) => {
+          if (!isControl(target)) return
+          const value = target.meter.getValue()
+          if (target.value !== null && Math.abs(value - target.value) < CONTROL_TOLERANCE) return
+          target.value = value
+          target.apply(value)
+        })
+      })
+    })
+  }
+
+  // Sweep a connection around a parameter value, now or from an audio time on
+  private setConnectionRange(connection: ModulationConnection, base: number, time?: number): void {
+    const [low, high] = connection.getRange(base)
+    if (time === undefined) {
+      connection.offset.addend.value = low
+      connection.span.factor.value = high - low
+    } else {
+      connection.offset.addend.setValueAtTime(low, time)
+      connection.span.factor.setValueAtTime(high - low, time)
     }
   }
 
+  // The modulator connection driving an effect parameter, if any
+  private getConnection(chain: EffectChain, effectId: string, param: string): ModulationConnection | undefined {
+    for (const active of chain.modulators.values()) {
+      const connection = active.connections.get(`${effectId}:${param}`)
+      if (connection) return connection
+    }
+    return undefined
+  }
+
+  // Hand a parameter back to its effect's stored value
+  private releaseConnection(chain: EffectChain, connection: ModulationConnection): void {
+    connection.span.dispose()
+    connection.offset.dispose()
+    if (isControl(connection.target)) {
+      connection.target.meter.dispose()
+    } else {
+      connection.target.overridden = false
+    }
+
+    const index = chain.effects.findIndex(effect => effect.id === connection.effectId)
+    if (index === -1) return
+    const effect = chain.effects[index]
+    this.updateToneEffectParams(chain.toneEffects[index], effect.type, effect.params)
+  }
+
+  private disposeModulator(chain: EffectChain, active: ActiveModulator): void {
+    active.connections.forEach(connection => this.releaseConnection(chain, connection))
+    active.clock?.dispose()
+    active.source.dispose()
+  }
+
+  // Create a Tone.js effect instance from its registry definition
+  private createToneEffect(effect: TrackEffect): Tone.ToneAudioNode | null {
+    const definition = EFFECT_REGISTRY[effect.type]
+    if (!definition) return null
+    return definition.create(resolveEffectParams(effect.type, effect.params, this.tempo))
+  }
+
+  // Update Tone.js effect parameters, or only the given keys
+  private updateToneEffectParams(toneEffect: Tone.ToneAudioNode, type: EffectType, params: EffectParams, time?: number, keys?: string[]): void {
+    const resolved = resolveEffectParams(type, params, this.tempo)
+    EFFECT_REGISTRY[type].update(toneEffect, keys ? Object.fromEntries(keys.map(key => [key, resolved[key]])) : resolved, time)
+  }
+
   // Rebuild the audio routing for an effect chain
   private rebuildEffectChain(chain: EffectChain): void {
-    console.log(`Rebuilding effect chain for track ${chain.trackIndex}`)
+    console.log(`Rebuilding effect chain for track ${chain.trackId}`)
     
     // Disconnect everything first
     chain.input.disconnect()
@@ -298,54 +606,151 @@ export class EffectsEngine {
       chain.effects[index].enabled
     )
 
-    console.log(`Track ${chain.trackIndex}: ${enabledEffects.length} enabled effects out of ${chain.toneEffects.length} total`)
+    console.log(`Track ${chain.trackId}: ${enabledEffects.length} enabled effects out of ${chain.toneEffects.length} total`)
 
     // If no enabled effects, connect input directly to output
     if (enabledEffects.length === 0) {
-      chain.input.connect(chain.output)
-      console.log(`Track ${chain.trackIndex}: Direct input->output connection (no effects)`)
+      chain.input.connect(chain.preFader)
+      console.log(`Track ${chain.trackId}: Direct input->output connection (no effects)`)
       return
     }
 
     // Connect input to first effect
     chain.input.connect(enabledEffects[0])
-    console.log(`Track ${chain.trackIndex}: Connected input to first effect`)
+    console.log(`Track ${chain.trackId}: Connected input to first effect`)
 
     // Chain effects together
     for (let i = 0; i < enabledEffects.length - 1; i++) {
       enabledEffects[i].connect(enabledEffects[i + 1])
-      console.log(`Track ${chain.trackIndex}: Connected effect ${i} to effect ${i + 1}`)
+      console.log(`Track ${chain.trackId}: Connected effect ${i} to effect ${i + 1}`)
     }
 
     // Connect last effect to output
-    enabledEffects[enabledEffects.length - 1].connect(chain.output)
-    console.log(`Track ${chain.trackIndex}: Connected last effect to output`)
+    enabledEffects[enabledEffects.length - 1].connect(chain.preFader)
+    console.log(`Track ${chain.trackId}: Connected last effect to output`)
+  }
+
+  // Rebuild a chain that may be playing: fade the effects' output out, rewire
+  // while silent and fade back in, so the change doesn't click
+  private fadeRebuildEffectChain(chain: EffectChain): void {
+    chain.preFader.gain.rampTo(0, REBUILD_FADE, Tone.immediate())
+    setTimeout(() => {
+      // The chain may have been removed while fading out
+      if (this.effectChains.get(chain.trackId) !== chain) return
+      this.rebuildEffectChain(chain)
+      chain.preFader.gain.rampTo(1, REBUILD_FADE, Tone.immediate())
+    }, REBUILD_FADE * 1000)
   }
 
   // Connect the effect chain output to a destination (deprecated - now connected automatically)
-  connectChainToDestination(trackIndex: number, _destination: Tone.InputNode): void {
+  connectChainToDestination(trackId: TrackId, _destination: Tone.InputNode): void {
     // This method is no longer needed as output is connected on creation
-    console.log(`connectChainToDestination called for track ${trackIndex} - but connection already exists`)
+    console.log(`connectChainToDestination called for track ${trackId} - but connection already exists`)
+  }
+
+  // Silence a track at the chain output, so effect tails are cut along with new hits.
+  // A short ramp avoids clicks.
+  setTrackMuted(trackId: TrackId, muted: boolean): void {
+    const chain = this.getEffectChain(trackId)
+    if (chain.muted === muted) return
+    chain.muted = muted
+    chain.output.gain.rampTo(getChannelGain(chain.volume, muted), 0.02)
+    chain.sends.forEach(send => send.gain.gain.rampTo(getSendGain(chain, send), 0.02))
+  }
+
+  // Fader level in dB
+  setTrackVolume(trackId: TrackId, volume: number): void {
+    const chain = this.getEffectChain(trackId)
+    if (chain.volume === volume) return
+    chain.volume = volume
+    chain.output.gain.rampTo(getChannelGain(volume, chain.muted), 0.02)
+  }
+
+  // Stereo position from -1 (left) to 1 (right)
+  setTrackPan(trackId: TrackId, pan: number): void {
+    const chain = this.getEffectChain(trackId)
+    chain.panner.pan.rampTo(pan, 0.02)
+  }
+
+  // Feed a track into an aux bus chain, tapped before or after the track's fader
+  setTrackSend(trackId: TrackId, busId: string, level: number, preFader: boolean): void {
+    const chain = this.getEffectChain(trackId)
+    let send = chain.sends.get(busId)
+    if (!send && level === 0) return
+
+    // Moving the tap point needs a new connection
+    if (send && send.preFader !== preFader) {
+      send.gain.dispose()
+      send = undefined
+    }
+    if (!send) {
+      send = { gain: new Tone.Gain(0), level, preFader }
+      const tap = preFader ? chain.preFader : chain.output
+      tap.connect(send.gain)
+      send.gain.connect(this.getEffectChain(busId).input)
+      chain.sends.set(busId, send)
+    }
+
+    send.level = level
+    send.gain.gain.rampTo(getSendGain(chain, send), 0.02)
+  }
+
+  // Current levels, or silence for tracks that haven't played yet
+  getTrackLevels(trackId: TrackId): TrackLevels {
+    const chain = this.effectChains.get(trackId)
+    if (!chain) return { peak: -Infinity, rms: -Infinity }
+
+    const samples = chain.waveform.getValue()
+    const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0)
+    return { peak: Tone.gainToDb(peak), rms: chain.meter.getValue() as number }
+  }
+
+  // Dispose of a deleted track's or bus's chain, along with sends into it
+  removeEffectChain(trackId: TrackId): void {
+    const chain = this.effectChains.get(trackId)
+    if (!chain) return
+
+    this.disposeChain(chain)
+    this.effectChains.delete(trackId)
+    this.effectChains.forEach(other => {
+      other.sends.get(trackId)?.gain.dispose()
+      other.sends.delete(trackId)
+    })
+    this.updateControlTimer()
+  }
+
+  private disposeChain(chain: EffectChain): void {
+    chain.modulators.forEach(active => this.disposeModulator(chain, active))
+    chain.input.dispose()
+    chain.preFader.dispose()
+    chain.output.dispose()
+    chain.panner.dispose()
+    chain.meter.dispose()
+    chain.waveform.dispose()
+    chain.sends.forEach(send => send.gain.dispose())
+    chain.toneEffects.forEach(effect => {
+      if ('dispose' in effect) {
+        (effect as { dispose: () => void }).dispose()
+      }
+    })
+  }
+
+  // Tracks and buses that currently have an effect chain
+  getTrackIds(): TrackId[] {
+    return [...this.effectChains.keys()]
   }
 
   // Get input node for a track's effect chain
-  getChainInput(trackIndex: number): Tone.Gain {
-    const chain = this.getEffectChain(trackIndex)
+  getChainInput(trackId: TrackId): Tone.Gain {
+    const chain = this.getEffectChain(trackId)
     return chain.input
   }
 
   // Dispose of all effects for cleanup
   dispose(): void {
-    this.effectChains.forEach(chain => {
-      chain.input.dispose()
-      chain.output.dispose()
-      chain.toneEffects.forEach(effect => {
-        if ('dispose' in effect) {
-          (effect as { dispose: () => void }).dispose()
-        }
-      })
-    })
+    this.effectChains.forEach(chain => this.disposeChain(chain))
     this.effectChains.clear()
+    this.updateControlTimer()
   }
 }
 
@@ -0,0 +1,41 @@
+import type { Pattern } from './pattern'
+
+// Euclidean rhythm settings for a track; the step count is the track length
+export interface EuclidSettings {
+  pulses: number
+  rotation: number
+}
+
+export const DEFAULT_EUCLID: EuclidSettings = { pulses: 4, rotation: 0 }
+
+// Spread pulses as evenly as possible over the steps (Bresenham form of
+// Bjorklund's algorithm), rotated right by `rotation` steps
+export function euclideanRhythm(pulses: number, steps: number, rotation: number = 0): boolean[] {
+  if (steps <= 0) return []
+
+  const hits = Math.min(Math.max(0, pulses), steps)
+  const rhythm = Array.from({ length: steps }, (_, i) => (i * hits) % steps < hits)
+  const offset = ((rotation % steps) + steps) % steps
+  return rhythm.map((_, i) => rhythm[(i - offset + steps) % steps])
+}
+
+// Regenerate a track's row from its Euclidean settings, if it has any.
+// Only `active` is rewritten, so velocities and other step data survive.
+export function applyEuclid(pattern: Pattern, trackIndex: number): Pattern {
+  const settings = pattern.euclid[trackIndex]
+  if (!settings) return pattern
+
+  const length = pattern.timing[trackIndex].length
+  const rhythm = euclideanRhythm(settings.pulses, length, settings.rotation)
+
+  const steps = [...pattern.steps]
+  steps[trackIndex] = steps[trackIndex].map((step, stepIndex) =>
+    stepIndex < length ? { ...step, active: rhythm[stepIndex] } : step
+  )
+  return { ...pattern, steps }
+}
+
+// Regenerate every Euclidean track, e.g. after track lengths changed
+export function applyEuclidToAll(pattern: Pattern): Pattern {
+  return pattern.euclid.reduce((current, _, trackIndex) => applyEuclid(current, trackIndex), pattern)
+}
@@ -0,0 +1,202 @@
+import type { Pattern, Step } from './pattern'
+import { DEFAULT_VELOCITY, VELOCITY_LEVELS, createStep, createTrackSteps } from './pattern'
+import type { StepResolution, TimeSignature } from './meter'
+import { getStepBoundary } from './meter'
+import type { Track, TrackId } from './tracks'
+
+// Seeded pattern generation and mutation. The same seed and settings always
+// produce the same pattern, so seeds can be shared.
+
+// Where a track prefers to place its hits
+export type GeneratorStyle = 'downbeats' | 'backbeats' | 'offbeats' | 'fillGaps' | 'free'
+
+export const GENERATOR_STYLES: { value: GeneratorStyle; label: string }[] = [
+  { value: 'downbeats', label: 'Downbeats' },
+  { value: 'backbeats', label: 'Backbeats' },
+  { value: 'offbeats', label: 'Offbeats' },
+  { value: 'fillGaps', label: 'Fill gaps' },
+  { value: 'free', label: 'Free' }
+]
+
+export interface GeneratorTrackSettings {
+  density: number // 0-1 share of the track's steps that get a hit
+  style: GeneratorStyle
+}
+
+export interface GeneratorSettings {
+  seed: string
+  tracks: Record<TrackId, GeneratorTrackSettings> // Tracks without settings use their group's defaults
+}
+
+// Share of steps changed by one Mutate, as a fraction of all track steps
+export const DEFAULT_MUTATE_AMOUNT = 0.1
+export const MAX_MUTATE_AMOUNT = 0.5
+
+// Starting style per sound group, so a fresh seed already sounds like a groove
+const GROUP_DEFAULTS: Record<string, GeneratorTrackSettings> = {
+  cough: { density: 0.25, style: 'downbeats' },
+  cry: { density: 0.1, style: 'backbeats' },
+  eat: { density: 0.2, style: 'offbeats' },
+  glurp: { density: 0.3, style: 'fillGaps' },
+  misc: { density: 0.1, style: 'free' },
+  snore: { density: 0.1, style: 'downbeats' },
+  squish: { density: 0.15, style: 'offbeats' }
+}
+
+export function getDefaultTrackSettings(groupKey: string): GeneratorTrackSettings {
+  return { ...(GROUP_DEFAULTS[groupKey] ?? { density: 0.2, style: 'free' }) }
+}
+
+// Settings for each track in track order
+export function getGeneratorTracks(settings: GeneratorSettings, tracks: Track[]): GeneratorTrackSettings[] {
+  return tracks.map(track => settings.tracks[track.id] ?? getDefaultTrackSettings(track.sound.groupKey))
+}
+
+export function createSeed(): string {
+  return Math.random().toString(36).slice(2, 8)
+}
+
+// Deterministic random source (mulberry32) seeded from a string hash
+export function createRandom(seed: string): () => number {
+  let state = 2166136261
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619)
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+// Position of a step within the bar
+function getStepPosition(stepIndex: number, signature: TimeSignature, resolution: StepResolution): 'bar' | 'beat' | null {
+  return stepIndex === 0 ? 'bar' : getStepBoundary(stepIndex, signature, resolution)
+}
+
+// How strongly a style wants a hit on a step
+function getStyleWeight(style: GeneratorStyle, position: 'bar' | 'beat' | null, occupied: boolean): number {
+  switch (style) {
+    case 'downbeats':
+      return position === 'bar' ? 1 : position === 'beat' ? 0.8 : 0.1
+    case 'backbeats':
+      return position === 'beat' ? 1 : 0.1
+    case 'offbeats':
+      return position === null ? 1 : 0.05
+    case 'fillGaps':
+      return occupied ? 0.05 : 1
+    case 'free':
+      return 1
+  }
+}
+
+function generateTrack(
+  random: () => number,
+  settings: GeneratorTrackSettings,
+  length: number,
+  occupied: boolean[],
+  signature: TimeSignature,
+  resolution: StepResolution
+): Step[] {
+  const positions = Array.from({ length }, (_, i) => getStepPosition(i, signature, resolution))
+  const hits = Math.round(Math.min(1, Math.max(0, settings.density)) * length)
+
+  // Jitter the style weights and keep the strongest steps, so the density is exact
+  const chosen = new Set(
+    positions
+      .map((position, i) => ({ i, weight: getStyleWeight(settings.style, position, occupied[i]) * (0.5 + random()) }))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, hits)
+      .map(({ i }) => i)
+  )
+
+  const steps = createTrackSteps()
+  for (const i of chosen) {
+    const strong = positions[i] !== null
+    steps[i] = {
+      ...createStep(),
+      active: true,
+      velocity: strong ? pick(random, [DEFAULT_VELOCITY, 1]) : pick(random, VELOCITY_LEVELS.slice(0, 3))
+    }
+  }
+  return steps
+}
+
+// Build fresh steps for every track from the seed. Track timing and groove are
+// kept; Euclidean generators are turned off because their rows are replaced.
+export function generatePattern(
+  pattern: Pattern,
+  seed: string,
+  trackSettings: GeneratorTrackSettings[],
+  signature: TimeSignature,
+  resolution: StepResolution
+): Pattern {
+  const random = createRandom(seed)
+  const steps = [...pattern.steps]
+
+  // Gap fillers go last so they can see where the other tracks landed
+  const order = pattern.steps
+    .map((_, trackIndex) => trackIndex)
+    .sort((a, b) => Number(trackSettings[a]?.style === 'fillGaps') - Number(trackSettings[b]?.style === 'fillGaps'))
+
+  const occupied: boolean[] = Array(steps[0]?.length ?? 0).fill(false)
+  for (const trackIndex of order) {
+    const settings = trackSettings[trackIndex] ?? { density: 0, style: 'free' }
+    const length = pattern.timing[trackIndex].length
+    steps[trackIndex] = generateTrack(random, settings, length, occupied, signature, resolution)
+    steps[trackIndex].forEach((step, i) => {
+      if (step.active) occupied[i] = true
+    })
+  }
+
+  return {
+    ...pattern,
+    steps,
+    euclid: pattern.euclid.map(() => null),
+    accents: pattern.accents.map(() => false)
+  }
+}
+
+// Randomly flip, shift or add a share of steps. Tracks driven by a Euclidean
+// generator are left alone since they would be regenerated anyway.
+export function mutatePattern(pattern: Pattern, seed: string, amount: number = DEFAULT_MUTATE_AMOUNT): Pattern {
+  const random = createRandom(seed)
+  const tracks = pattern.steps.map((_, trackIndex) => trackIndex).filter(trackIndex => !pattern.euclid[trackIndex])
+  if (tracks.length === 0) return pattern
+
+  const totalSteps = tracks.reduce((total, trackIndex) => total + pattern.timing[trackIndex].length, 0)
+  const changes = Math.max(1, Math.round(totalSteps * Math.min(MAX_MUTATE_AMOUNT, Math.max(0, amount))))
+  const steps = pattern.steps.map(track => [...track])
+
+  for (let n = 0; n < changes; n++) {
+    const trackIndex = pick(random, tracks)
+    const length = pattern.timing[trackIndex].length
+    const row = steps[trackIndex]
+    const activeSteps = row.slice(0, length).flatMap((step, i) => step.active ? [i] : [])
+    const operation = pick(random, ['flip', 'shift', 'add'] as const)
+
+    if (operation === 'shift' && activeSteps.length > 0) {
+      // Nudge a hit one step earlier or later, carrying its settings along
+      const from = pick(random, activeSteps)
+      const to = (from + (random() < 0.5 ? -1 : 1) + length) % length
+      if (!row[to].active) {
+        row[to] = row[from]
+        row[from] = { ...row[from], active: false }
+      }
+    } else if (operation === 'add' || activeSteps.length === 0) {
+      const i = Math.floor(random() * length)
+      row[i] = { ...row[i], active: true, velocity: pick(random, VELOCITY_LEVELS) }
+    } else {
+      const i = Math.floor(random() * length)
+      row[i] = { ...row[i], active: !row[i].active }
+    }
+  }
+
+  return { ...pattern, steps }
+}
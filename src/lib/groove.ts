@@ -0,0 +1,74 @@
+// Swing and groove templates applied by the step scheduler
+
+export type GrooveTemplateId = 'straight' | 'swing16' | 'swing8' | 'triplet' | 'house'
+
+// Swing is expressed MPC-style: the share of a note pair taken by its first note.
+// 50% is straight, ~66.7% is a triplet feel, 75% is a dotted feel.
+export const MIN_SWING = 50
+export const MAX_SWING = 75
+export const TRIPLET_SWING = 200 / 3
+
+export interface GrooveTemplate {
+  id: GrooveTemplateId
+  name: string
+  pairSteps: 0 | 1 | 2 // 16ths per swung note (1 = 16ths, 2 = 8ths, 0 = no swing)
+  fixedSwing?: number // Ignores the swing control when set
+  velocity: number[] // Gain multiplier for each 16th within a beat
+}
+
+// Groove setting saved with each pattern
+export interface GrooveSettings {
+  templateId: GrooveTemplateId
+  swing: number // MIN_SWING-MAX_SWING
+}
+
+export const DEFAULT_GROOVE: GrooveSettings = {
+  templateId: 'straight',
+  swing: 58
+}
+
+export const GROOVE_TEMPLATES: GrooveTemplate[] = [
+  { id: 'straight', name: 'Straight', pairSteps: 0, velocity: [1, 1, 1, 1] },
+  { id: 'swing16', name: 'MPC 16th Swing', pairSteps: 1, velocity: [1, 0.85, 0.95, 0.85] },
+  { id: 'swing8', name: 'MPC 8th Swing', pairSteps: 2, velocity: [1, 0.9, 0.85, 0.9] },
+  { id: 'triplet', name: 'Triplet Feel', pairSteps: 1, fixedSwing: TRIPLET_SWING, velocity: [1, 0.8, 0.9, 0.8] },
+  { id: 'house', name: 'House Shuffle', pairSteps: 1, velocity: [1, 0.7, 1, 0.75] }
+]
+
+export function getGrooveTemplate(id: GrooveTemplateId): GrooveTemplate {
+  return GROOVE_TEMPLATES.find(template => template.id === id) ?? GROOVE_TEMPLATES[0]
+}
+
+export function getEffectiveSwing(groove: GrooveSettings): number {
+  const template = getGrooveTemplate(groove.templateId)
+  if (template.pairSteps === 0) return MIN_SWING
+  return template.fixedSwing ?? Math.min(MAX_SWING, Math.max(MIN_SWING, groove.swing))
+}
+
+// Delay in seconds to add to a step's straight start time. Templates are laid out
+// in 16ths, so lanes at other resolutions or speeds are mapped onto them by their
+// step length in 16ths (2 for 8ths, 2/3 for 16th triplets).
+export function getGrooveOffset(groove: GrooveSettings, step: number, stepDuration: number, stepSixteenths: number): number {
+  const template = getGrooveTemplate(groove.templateId)
+  if (template.pairSteps === 0) return 0
+
+  // Position within the swung note pair, in 16ths
+  const pairLength = template.pairSteps * 2
+  const position = (step * stepSixteenths) % pairLength
+  const ratio = getEffectiveSwing(groove) / 50
+
+  // The first note of the pair is stretched by the swing ratio, the second squeezed to fit
+  const swungPosition = position < template.pairSteps
+    ? position * ratio
+    : template.pairSteps * ratio + (position - template.pairSteps) * (2 - ratio)
+
+  return (swungPosition - position) * stepDuration / stepSixteenths
+}
+
+// Gain multiplier for the 16th of the beat a step starts in
+export function getGrooveVelocity(groove: GrooveSettings, step: number, stepSixteenths: number): number {
+  const template = getGrooveTemplate(groove.templateId)
+  // Nudge up so floating point error doesn't drop a step into the previous 16th
+  const sixteenth = Math.floor(step * stepSixteenths + 1e-6)
+  return template.velocity[sixteenth % template.velocity.length]
+}
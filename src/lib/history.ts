@@ -0,0 +1,161 @@
+import type { PatternBank } from './patternBank'
+import type { StepResolution, TimeSignature } from './meter'
+import type { Track, TrackGroup } from './tracks'
+import type { MasterSettings } from './masterBus'
+import type { AuxBus } from './buses'
+import type { TrackEffect } from './effectsEngine'
+
+// Undo/redo history of immutable snapshots
+
+export const MAX_HISTORY = 100
+
+// Changes with the same key arriving within this window are merged into one
+// entry, so dragging a slider undoes in a single step
+export const MERGE_WINDOW_MS = 800
+
+export interface History<T> {
+  past: T[]
+  present: T
+  future: T[]
+  lastKey: string | null
+  lastTime: number
+}
+
+export function createHistory<T>(present: T): History<T> {
+  return { past: [], present, future: [], lastKey: null, lastTime: 0 }
+}
+
+// Record a new present state. Redo is dropped, as with any new edit.
+export function recordHistory<T>(history: History<T>, present: T, key: string, now: number = Date.now()): History<T> {
+  const merge = key === history.lastKey && now - history.lastTime < MERGE_WINDOW_MS
+  const past = merge ? history.past : [...history.past, history.present].slice(-MAX_HISTORY)
+  return { past, present, future: [], lastKey: key, lastTime: now }
+}
+
+// Replace the present without creating an entry, e.g. for changes that shouldn't be undoable
+export function replacePresent<T>(history: History<T>, present: T): History<T> {
+  return { ...history, present }
+}
+
+export function undoHistory<T>(history: History<T>): History<T> {
+  if (history.past.length === 0) return history
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastKey: null,
+    lastTime: 0
+  }
+}
+
+export function redoHistory<T>(history: History<T>): History<T> {
+  if (history.future.length === 0) return history
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastKey: null,
+    lastTime: 0
+  }
+}
+
+// Everything in the sequencer that can be undone
+export interface SequencerSnapshot {
+  bank: PatternBank
+  tracks: Track[]
+  groups: TrackGroup[]
+  buses: AuxBus[]
+  master: MasterSettings
+  tempo: number
+  gridSize: number
+  timeSignature: TimeSignature
+  resolution: StepResolution
+}
+
+// Effect slots moved to a new position; reordering never merges with other edits
+function isEffectOrderChanged(before: TrackEffect[], after: TrackEffect[]): boolean {
+  return after.some((effect, index) => effect.id !== before[index].id)
+}
+
+// Key identifying what changed between two snapshots, so repeated edits of the
+// same control merge. Returns undefined when nothing changed, 'slots' when only
+// empty pattern slots were created, and null for bulk edits that never merge.
+export function getChangeKey(prev: SequencerSnapshot, next: SequencerSnapshot): string | null | undefined {
+  if (prev.tempo !== next.tempo) return 'tempo'
+  if (prev.gridSize !== next.gridSize || prev.timeSignature !== next.timeSignature || prev.resolution !== next.resolution) {
+    return 'grid'
+  }
+
+  if (prev.tracks !== next.tracks) {
+    // Adding, removing or reordering tracks
+    if (prev.tracks.length !== next.tracks.length || next.tracks.some((track, index) => track.id !== prev.tracks[index].id)) {
+      return null
+    }
+
+    // Exclusive solo and grouping by sound touch several tracks at once
+    const changedTracks = next.tracks.flatMap((track, index) => track !== prev.tracks[index] ? [index] : [])
+    if (changedTracks.length !== 1) return null
+
+    const before = prev.tracks[changedTracks[0]]
+    const after = next.tracks[changedTracks[0]]
+    if (before.sound !== after.sound) return `sound:${after.id}`
+    if (before.tuning !== after.tuning) return `tuning:${after.id}`
+    if (before.volume !== after.volume) return `volume:${after.id}`
+    if (before.pan !== after.pan) return `pan:${after.id}`
+    if (before.sends !== after.sends) return `sends:${after.id}`
+    if (before.muted !== after.muted) return `mute:${after.id}`
+    if (before.solo !== after.solo) return `solo:${after.id}`
+    if (before.groupId !== after.groupId) return `group:${after.id}`
+    if (before.modulators !== after.modulators) return `modulators:${after.id}`
+    if (before.effects.length !== after.effects.length) return `effects:${after.id}`
+    if (isEffectOrderChanged(before.effects, after.effects)) return null
+    const changed = after.effects.find((effect, index) => effect !== before.effects[index])
+    return `effects:${after.id}:${changed?.id}`
+  }
+
+  if (prev.groups !== next.groups) {
+    if (prev.groups.length !== next.groups.length) return null
+    const group = next.groups.find((group, index) => group !== prev.groups[index])
+    return `groups:${group?.id}`
+  }
+
+  if (prev.buses !== next.buses) {
+    if (prev.buses.length !== next.buses.length) return null
+    const busIndex = next.buses.findIndex((bus, index) => bus !== prev.buses[index])
+    const before = prev.buses[busIndex]
+    const after = next.buses[busIndex]
+    if (before.effects !== after.effects) {
+      if (before.effects.length === after.effects.length && isEffectOrderChanged(before.effects, after.effects)) return null
+      const changed = after.effects.find((effect, index) => effect !== before.effects[index])
+      return `bus-effects:${after.id}:${changed?.id}`
+    }
+    return `bus:${after.id}`
+  }
+
+  if (prev.master !== next.master) {
+    const section = (['volume', 'eq', 'compressor', 'limiter'] as const).find(key => prev.master[key] !== next.master[key])
+    return `master:${section}`
+  }
+
+  if (prev.bank !== next.bank) {
+    const changedSlots = Object.keys(next.bank).filter(slot => next.bank[slot] !== prev.bank[slot])
+    if (changedSlots.every(slot => !prev.bank[slot])) return 'slots'
+    if (changedSlots.length > 1) return null
+
+    const slot = changedSlots[0]
+    const before = prev.bank[slot]
+    const after = next.bank[slot]
+    if (before.steps !== after.steps) {
+      const changedTracks = after.steps.flatMap((track, index) => track !== before.steps[index] ? [index] : [])
+      if (changedTracks.length !== 1) return null
+
+      const trackIndex = changedTracks[0]
+      const stepIndex = after.steps[trackIndex].findIndex((step, index) => step !== before.steps[trackIndex][index])
+      return `steps:${slot}:${trackIndex}:${stepIndex}`
+    }
+    const field = (['timing', 'euclid', 'accents', 'groove'] as const).find(key => before[key] !== after[key])
+    return `${field}:${slot}`
+  }
+
+  return undefined
+}
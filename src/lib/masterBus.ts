@@ -0,0 +1,158 @@
+import * as Tone from 'tone'
+import type { TrackLevels } from './effectsEngine'
+import { getChannelGain } from './effectsEngine'
+
+// Shared master channel between the track channels and the speakers: 3-band EQ,
+// master volume, glue compressor and brickwall limiter. The limiter comes last so
+// no volume setting can push the output past its ceiling. Anything that renders or
+// exports audio should record from getOutput() so it includes this processing.
+
+export interface MasterSettings {
+  volume: number // dB, MIN_VOLUME_DB-MAX_VOLUME_DB
+  eq: {
+    low: number // dB, MIN_EQ_GAIN-MAX_EQ_GAIN
+    mid: number
+    high: number
+  }
+  compressor: {
+    enabled: boolean
+    threshold: number // dB
+    ratio: number
+    attack: number // Seconds
+    release: number // Seconds
+  }
+  limiter: {
+    enabled: boolean
+    threshold: number // dB ceiling
+  }
+}
+
+export const DEFAULT_MASTER_SETTINGS: MasterSettings = {
+  volume: 0,
+  eq: { low: 0, mid: 0, high: 0 },
+  compressor: { enabled: true, threshold: -18, ratio: 2, attack: 0.01, release: 0.2 },
+  limiter: { enabled: true, threshold: -1 }
+}
+
+export const MIN_EQ_GAIN = -12
+export const MAX_EQ_GAIN = 12
+
+export interface MasterLevels extends TrackLevels {
+  clipped: boolean // Latched until resetClip()
+}
+
+interface MasterNodes {
+  input: Tone.Gain
+  eq: Tone.EQ3
+  volume: Tone.Gain
+  compressor: Tone.Compressor
+  limiter: Tone.Limiter
+  output: Tone.Gain
+  meter: Tone.Meter
+  waveform: Tone.Waveform
+}
+
+class MasterBus {
+  private nodes: MasterNodes | null = null
+  private settings: MasterSettings = DEFAULT_MASTER_SETTINGS
+  private clipped = false
+
+  // Nodes are created on first use, once Tone.js runs on the shared AudioContext
+  private getNodes(): MasterNodes {
+    if (this.nodes) return this.nodes
+
+    const { eq, compressor, limiter, volume } = this.settings
+    const nodes: MasterNodes = {
+      input: new Tone.Gain(1),
+      eq: new Tone.EQ3(eq),
+      volume: new Tone.Gain(getChannelGain(volume, false)),
+      compressor: new Tone.Compressor({
+        threshold: compressor.threshold,
+        ratio: compressor.ratio,
+        attack: compressor.attack,
+        release: compressor.release
+      }),
+      limiter: new Tone.Limiter(limiter.threshold),
+      output: new Tone.Gain(1),
+      meter: new Tone.Meter({ smoothing: 0.8 }),
+      waveform: new Tone.Waveform(256)
+    }
+
+    nodes.input.connect(nodes.eq)
+    nodes.output.connect(Tone.getDestination())
+    nodes.output.fan(nodes.meter, nodes.waveform)
+    this.nodes = nodes
+    this.rebuild()
+    return nodes
+  }
+
+  // Wire the EQ and volume through whichever dynamics stages are enabled to the output
+  private rebuild(): void {
+    if (!this.nodes) return
+    const { eq, volume, compressor, limiter, output } = this.nodes
+
+    eq.disconnect()
+    volume.disconnect()
+    compressor.disconnect()
+    limiter.disconnect()
+
+    const stages: Tone.ToneAudioNode[] = [
+      eq,
+      volume,
+      ...(this.settings.compressor.enabled ? [compressor] : []),
+      ...(this.settings.limiter.enabled ? [limiter] : []),
+      output
+    ]
+    for (let i = 0; i < stages.length - 1; i++) {
+      stages[i].connect(stages[i + 1])
+    }
+  }
+
+  // Where track and bus channels connect
+  getInput(): Tone.Gain {
+    return this.getNodes().input
+  }
+
+  // Final processed signal, as sent to the speakers
+  getOutput(): Tone.Gain {
+    return this.getNodes().output
+  }
+
+  update(settings: MasterSettings): void {
+    const previous = this.settings
+    this.settings = settings
+    if (!this.nodes) return
+
+    const { eq, volume, compressor, limiter } = this.nodes
+    eq.low.rampTo(settings.eq.low, 0.02)
+    eq.mid.rampTo(settings.eq.mid, 0.02)
+    eq.high.rampTo(settings.eq.high, 0.02)
+    compressor.threshold.rampTo(settings.compressor.threshold, 0.02)
+    compressor.ratio.rampTo(settings.compressor.ratio, 0.02)
+    compressor.attack.rampTo(settings.compressor.attack, 0.02)
+    compressor.release.rampTo(settings.compressor.release, 0.02)
+    limiter.threshold.rampTo(settings.limiter.threshold, 0.02)
+    volume.gain.rampTo(getChannelGain(settings.volume, false), 0.02)
+
+    if (previous.compressor.enabled !== settings.compressor.enabled || previous.limiter.enabled !== settings.limiter.enabled) {
+      this.rebuild()
+    }
+  }
+
+  // Output levels; the clip light latches once the output reaches 0 dB
+  getLevels(): MasterLevels {
+    if (!this.nodes) return { peak: -Infinity, rms: -Infinity, clipped: this.clipped }
+
+    const samples = this.nodes.waveform.getValue()
+    const peak = Tone.gainToDb(samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0))
+    if (peak >= 0) this.clipped = true
+    return { peak, rms: this.nodes.meter.getValue() as number, clipped: this.clipped }
+  }
+
+  resetClip(): void {
+    this.clipped = false
+  }
+}
+
+// Export singleton instance
+export const masterBus = new MasterBus()
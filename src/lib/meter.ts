@@ -0,0 +1,112 @@
+// Time signatures and step resolutions for the sequencer grid
+
+export type StepResolution = '1/8' | '1/16' | '1/32' | '1/8T' | '1/16T'
+
+export const STEP_RESOLUTIONS: { value: StepResolution; label: string; quarterNotes: number }[] = [
+  { value: '1/8', label: '1/8', quarterNotes: 1 / 2 },
+  { value: '1/16', label: '1/16', quarterNotes: 1 / 4 },
+  { value: '1/32', label: '1/32', quarterNotes: 1 / 8 },
+  { value: '1/8T', label: '1/8 T', quarterNotes: 1 / 3 },
+  { value: '1/16T', label: '1/16 T', quarterNotes: 1 / 6 }
+]
+
+export interface TimeSignature {
+  beats: number
+  unit: 4 | 8
+}
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { beats: 4, unit: 4 },
+  { beats: 3, unit: 4 },
+  { beats: 5, unit: 4 },
+  { beats: 7, unit: 4 },
+  { beats: 5, unit: 8 },
+  { beats: 6, unit: 8 },
+  { beats: 7, unit: 8 },
+  { beats: 9, unit: 8 },
+  { beats: 12, unit: 8 }
+]
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beats: 4, unit: 4 }
+export const DEFAULT_RESOLUTION: StepResolution = '1/16'
+
+export function formatTimeSignature(signature: TimeSignature): string {
+  return `${signature.beats}/${signature.unit}`
+}
+
+export function parseTimeSignature(value: string): TimeSignature {
+  const [beats, unit] = value.split('/').map(Number)
+  return { beats, unit: unit === 8 ? 8 : 4 }
+}
+
+// Length of one step in quarter notes
+export function getStepQuarterNotes(resolution: StepResolution): number {
+  return STEP_RESOLUTIONS.find(option => option.value === resolution)?.quarterNotes ?? 1 / 4
+}
+
+// Beat groups of a bar in quarter notes. Compound /8 meters group eighths in
+// twos and threes (6/8 = 3+3, 7/8 = 2+2+3), simple meters count each beat.
+export function getBeatGroups(signature: TimeSignature): number[] {
+  if (signature.unit === 4) {
+    return Array(signature.beats).fill(1)
+  }
+
+  let eighthGroups: number[]
+  if (signature.beats % 3 === 0) {
+    eighthGroups = Array(signature.beats / 3).fill(3)
+  } else {
+    const threes = signature.beats % 2 === 1 ? 1 : 0
+    eighthGroups = [...Array((signature.beats - threes * 3) / 2).fill(2), ...Array(threes).fill(3)]
+  }
+  return eighthGroups.map(eighths => eighths / 2)
+}
+
+// Steps in one bar, rounded when the resolution doesn't divide the bar evenly
+export function getStepsPerBar(signature: TimeSignature, resolution: StepResolution): number {
+  const barQuarterNotes = signature.beats * (4 / signature.unit)
+  return Math.max(1, Math.round(barQuarterNotes / getStepQuarterNotes(resolution)))
+}
+
+// Whether a step starts a new bar or beat group, for spacing in the grid
+export function getStepBoundary(stepIndex: number, signature: TimeSignature, resolution: StepResolution): 'bar' | 'beat' | null {
+  if (stepIndex === 0) return null
+
+  const stepsPerBar = getStepsPerBar(signature, resolution)
+  const position = stepIndex % stepsPerBar
+  if (position === 0) return 'bar'
+
+  const stepQuarterNotes = getStepQuarterNotes(resolution)
+  let groupStart = 0
+  for (const group of getBeatGroups(signature)) {
+    groupStart += group
+    if (Math.round(groupStart / stepQuarterNotes) === position) return 'beat'
+  }
+  return null
+}
+
+// Musical lengths for tempo-synced effect parameters; d = dotted, t = triplet
+export type NoteValue =
+  | '1/1' | '1/2' | '1/2d' | '1/4' | '1/4d' | '1/4t'
+  | '1/8' | '1/8d' | '1/8t' | '1/16' | '1/16d' | '1/16t' | '1/32'
+
+export const NOTE_VALUES: { value: NoteValue; label: string; quarterNotes: number }[] = [
+  { value: '1/1', label: '1/1', quarterNotes: 4 },
+  { value: '1/2', label: '1/2', quarterNotes: 2 },
+  { value: '1/2d', label: '1/2 dotted', quarterNotes: 3 },
+  { value: '1/4', label: '1/4', quarterNotes: 1 },
+  { value: '1/4d', label: '1/4 dotted', quarterNotes: 3 / 2 },
+  { value: '1/4t', label: '1/4 triplet', quarterNotes: 2 / 3 },
+  { value: '1/8', label: '1/8', quarterNotes: 1 / 2 },
+  { value: '1/8d', label: '1/8 dotted', quarterNotes: 3 / 4 },
+  { value: '1/8t', label: '1/8 triplet', quarterNotes: 1 / 3 },
+  { value: '1/16', label: '1/16', quarterNotes: 1 / 4 },
+  { value: '1/16d', label: '1/16 dotted', quarterNotes: 3 / 8 },
+  { value: '1/16t', label: '1/16 triplet', quarterNotes: 1 / 6 },
+  { value: '1/32', label: '1/32', quarterNotes: 1 / 8 }
+]
+
+// Length of a note value in seconds at a tempo in BPM (quarter notes per minute)
+export function getNoteSeconds(note: NoteValue, tempo: number): number {
+  const quarterNotes = NOTE_VALUES.find(option => option.value === note)?.quarterNotes ?? 1
+  return quarterNotes * 60 / tempo
+}
@@ -0,0 +1,67 @@
+import type { NoteValue } from './meter'
+import { getNoteSeconds } from './meter'
+
+// Modulators move effect parameters on their own: LFOs cycle continuously and
+// envelopes fire on every hit of the track. Each modulator can drive several
+// numeric effect parameters, each with its own depth. The engine runs them as
+// Tone.js signals connected to the parameters, so they never touch React state.
+
+export type ModulatorKind = 'lfo' | 'envelope'
+
+export type LfoShape = 'sine' | 'triangle' | 'square' | 'random'
+
+export interface ModulationTarget {
+  effectId: string
+  param: string
+  depth: number // -1 to 1, as a share of the parameter's range; negative inverts
+}
+
+export interface Modulator {
+  id: string
+  kind: ModulatorKind
+  shape: LfoShape // LFOs only; random holds a new value each cycle
+  rate: number // Hz, LFOs only
+  sync: NoteValue | null // LFO cycle length following the tempo, replaces the rate
+  attack: number // Seconds, envelopes only
+  decay: number // Seconds, envelopes only
+  targets: ModulationTarget[]
+}
+
+export const LFO_SHAPES: { value: LfoShape; label: string }[] = [
+  { value: 'sine', label: 'Sine' },
+  { value: 'triangle', label: 'Triangle' },
+  { value: 'square', label: 'Square' },
+  { value: 'random', label: 'Random' }
+]
+
+export const MAX_MODULATORS = 4
+export const MIN_LFO_RATE = 0.05
+export const MAX_LFO_RATE = 20
+export const MIN_ENVELOPE_TIME = 0.001
+export const MAX_ENVELOPE_TIME = 2
+
+export function createModulator(kind: ModulatorKind): Modulator {
+  return {
+    id: `mod-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    kind,
+    shape: 'sine',
+    rate: 1,
+    sync: null,
+    attack: 0.005,
+    decay: 0.3,
+    targets: []
+  }
+}
+
+// LFO speed in Hz at the given tempo
+export function getModulatorRate(modulator: Modulator, tempo: number): number {
+  return modulator.sync ? 1 / getNoteSeconds(modulator.sync, tempo) : modulator.rate
+}
+
+// Values a target sweeps between as the modulator goes from 0 to 1, kept inside
+// the parameter's range. LFOs swing around the base value; envelopes rise from it.
+export function getModulationRange(kind: ModulatorKind, base: number, depth: number, min: number, max: number): [number, number] {
+  const span = depth * (max - min)
+  const clamp = (value: number) => Math.min(max, Math.max(min, value))
+  return kind === 'lfo' ? [clamp(base - span / 2), clamp(base + span / 2)] : [clamp(base), clamp(base + span)]
+}
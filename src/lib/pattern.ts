@@ -0,0 +1,268 @@
+import type { GrooveSettings } from './groove'
+import type { EffectParams } from './effectRegistry'
+import type { EuclidSettings } from './euclid'
+import { DEFAULT_GROOVE } from './groove'
+import { moveItem } from './tracks'
+
+// Step data model for the sequencer grid
+
+// Number of steps stored per track, regardless of the visible grid size
+export const MAX_STEPS = 64
+export const DEFAULT_TRACK_LENGTH = 16
+
+// Per-track clock multipliers relative to the base 16th step
+export type TrackSpeed = '1/2' | '3/4' | '1' | '2'
+
+export const TRACK_SPEEDS: { value: TrackSpeed; label: string; multiplier: number }[] = [
+  { value: '1/2', label: '1/2x', multiplier: 0.5 },
+  { value: '3/4', label: '3/4x', multiplier: 0.75 },
+  { value: '1', label: '1x', multiplier: 1 },
+  { value: '2', label: '2x', multiplier: 2 }
+]
+
+export const MIN_VELOCITY = 0.05
+export const DEFAULT_VELOCITY = 0.7
+
+// Velocity presets cycled by modifier-click on a step
+export const VELOCITY_LEVELS = [0.25, 0.5, 0.7, 1]
+
+// Extra gain added to every hit on an accented step
+export const ACCENT_BOOST = 0.3
+
+// Elektron-style trig conditions. "A:B" fires on pass A of every B loop passes.
+export type RatioCondition = `${number}:${number}`
+export type TrigCondition = 'always' | 'first' | 'notFirst' | 'fill' | 'notFill' | RatioCondition
+
+export const TRIG_CONDITIONS: { value: TrigCondition; label: string }[] = [
+  { value: 'always', label: 'Always' },
+  { value: 'first', label: 'First pass only' },
+  { value: 'notFirst', label: 'Not first pass' },
+  { value: 'fill', label: 'Fill' },
+  { value: 'notFill', label: 'Not fill' },
+  ...[2, 3, 4, 8].flatMap(b =>
+    Array.from({ length: b }, (_, i) => {
+      const value: RatioCondition = `${i + 1}:${b}`
+      return { value, label: value }
+    })
+  )
+]
+
+// Number of retriggers a step can be split into within its duration
+export const RATCHET_COUNTS = [1, 2, 3, 4, 8] as const
+export type RatchetCount = typeof RATCHET_COUNTS[number]
+
+// Velocity shape across a step's ratchets
+export type RatchetRamp = 'none' | 'up' | 'down'
+
+// Quietest ratchet in a ramp, relative to the step velocity
+const RATCHET_RAMP_FLOOR = 0.3
+
+// Pitch offsets in semitones, applied through the sample playback rate
+export const MIN_PITCH = -24
+export const MAX_PITCH = 24
+export const MIN_TUNING = -12
+export const MAX_TUNING = 12
+
+// Largest timing offset of a step from its grid position, as a fraction of a step
+export const MAX_MICROTIMING = 0.5
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+// Per-step effect parameter overrides for the track's effects, keyed by effect id
+export type ParamLocks = Record<string, Partial<EffectParams>>
+
+// A single step in a track row
+export interface Step {
+  active: boolean
+  velocity: number // 0-1
+  probability: number // 0-100 chance of firing
+  condition: TrigCondition
+  ratchet: RatchetCount
+  ratchetRamp: RatchetRamp
+  paramLocks: ParamLocks
+  pitch: number // Semitones relative to the track tuning
+  microtiming: number // Offset from the grid as a fraction of a step, +-MAX_MICROTIMING
+}
+
+// One retrigger of a ratcheted step
+export interface RatchetHit {
+  time: number // AudioContext time
+  velocityScale: number // Multiplier applied to the step gain
+}
+
+// Length and speed of a track, so tracks can run polymetrically against each other
+export interface TrackTiming {
+  length: number // 1-MAX_STEPS
+  speed: TrackSpeed
+}
+
+// Everything that makes up one playable pattern
+export interface Pattern {
+  steps: Step[][] // [track][step]
+  timing: TrackTiming[] // [track]
+  euclid: (EuclidSettings | null)[] // [track], null for hand-programmed tracks
+  accents: boolean[] // Global accent lane, indexed by master step; each track step takes the accent of the master step it starts in
+  groove: GrooveSettings
+}
+
+export function createStep(): Step {
+  return {
+    active: false,
+    velocity: DEFAULT_VELOCITY,
+    probability: 100,
+    condition: 'always',
+    ratchet: 1,
+    ratchetRamp: 'none',
+    paramLocks: {},
+    pitch: 0,
+    microtiming: 0
+  }
+}
+
+export function createTrackSteps(length: number = MAX_STEPS): Step[] {
+  return Array.from({ length }, createStep)
+}
+
+export function createTrackTiming(length: number = DEFAULT_TRACK_LENGTH): TrackTiming {
+  return { length, speed: '1' }
+}
+
+export function createPattern(trackCount: number, trackLength: number = DEFAULT_TRACK_LENGTH): Pattern {
+  return {
+    steps: Array.from({ length: trackCount }, () => createTrackSteps()),
+    timing: Array.from({ length: trackCount }, () => createTrackTiming(trackLength)),
+    euclid: Array(trackCount).fill(null),
+    accents: Array(MAX_STEPS).fill(false),
+    groove: { ...DEFAULT_GROOVE }
+  }
+}
+
+// Track list edits, applied to every pattern so its rows stay in track order.
+// A new row is empty, or a copy of the row at `copyFrom` when duplicating.
+export function insertPatternTrack(pattern: Pattern, index: number, trackLength: number, copyFrom?: number): Pattern {
+  const insert = <T>(rows: T[], row: T) => [...rows.slice(0, index), row, ...rows.slice(index)]
+  const copy = copyFrom !== undefined
+  return {
+    ...pattern,
+    steps: insert(pattern.steps, copy ? pattern.steps[copyFrom].map(step => ({ ...step })) : createTrackSteps()),
+    timing: insert(pattern.timing, copy ? { ...pattern.timing[copyFrom] } : createTrackTiming(trackLength)),
+    euclid: insert(pattern.euclid, copy && pattern.euclid[copyFrom] ? { ...pattern.euclid[copyFrom] } : null)
+  }
+}
+
+export function removePatternTrack(pattern: Pattern, index: number): Pattern {
+  const remove = <T>(rows: T[]) => rows.filter((_, i) => i !== index)
+  return { ...pattern, steps: remove(pattern.steps), timing: remove(pattern.timing), euclid: remove(pattern.euclid) }
+}
+
+export function movePatternTrack(pattern: Pattern, from: number, to: number): Pattern {
+  return {
+    ...pattern,
+    steps: moveItem(pattern.steps, from, to),
+    timing: moveItem(pattern.timing, from, to),
+    euclid: moveItem(pattern.euclid, from, to)
+  }
+}
+
+export function clampTrackLength(length: number): number {
+  return Math.min(MAX_STEPS, Math.max(1, Math.round(length)))
+}
+
+export function getSpeedMultiplier(speed: TrackSpeed): number {
+  return TRACK_SPEEDS.find(option => option.value === speed)?.multiplier ?? 1
+}
+
+export function clampVelocity(velocity: number): number {
+  return Math.min(1, Math.max(MIN_VELOCITY, velocity))
+}
+
+// Next velocity preset after the current one, wrapping around
+export function nextVelocityLevel(velocity: number): number {
+  const next = VELOCITY_LEVELS.find(level => level > velocity + 0.001)
+  return next ?? VELOCITY_LEVELS[0]
+}
+
+// Whether a step carries a probability or condition beyond a plain trig
+export function hasTrigCondition(step: Step): boolean {
+  return step.probability < 100 || step.condition !== 'always'
+}
+
+export function clampPitch(pitch: number, min: number = MIN_PITCH, max: number = MAX_PITCH): number {
+  return Math.min(max, Math.max(min, Math.round(pitch)))
+}
+
+// Note name for a semitone offset, treating 0 as C4
+export function getNoteName(semitones: number): string {
+  const noteIndex = ((semitones % 12) + 12) % 12
+  const octave = 4 + Math.floor(semitones / 12)
+  return `${NOTE_NAMES[noteIndex]}${octave}`
+}
+
+export function clampMicrotiming(microtiming: number): number {
+  return Math.min(MAX_MICROTIMING, Math.max(-MAX_MICROTIMING, microtiming))
+}
+
+export function isBlackKey(semitones: number): boolean {
+  return getNoteName(semitones).includes('#')
+}
+
+export function hasParamLocks(step: Step): boolean {
+  return Object.values(step.paramLocks).some(lock => Object.keys(lock).length > 0)
+}
+
+// Evaluate a trig condition for a loop pass (0-based)
+export function conditionMatches(condition: TrigCondition, pass: number, fillActive: boolean): boolean {
+  switch (condition) {
+    case 'always':
+      return true
+    case 'first':
+      return pass === 0
+    case 'notFirst':
+      return pass > 0
+    case 'fill':
+      return fillActive
+    case 'notFill':
+      return !fillActive
+    default: {
+      const [a, b] = condition.split(':').map(Number)
+      return pass % b === a - 1
+    }
+  }
+}
+
+// Decide whether an active step fires on this pass
+export function shouldTrigger(step: Step, pass: number, fillActive: boolean): boolean {
+  if (!step.active) return false
+  if (!conditionMatches(step.condition, pass, fillActive)) return false
+  return step.probability >= 100 || Math.random() * 100 < step.probability
+}
+
+// Spread a step's ratchets evenly over its duration. A single hit has nothing to
+// ramp across, so a ramp left over from an earlier ratchet setting is ignored.
+export function getRatchetHits(step: Step, time: number, duration: number): RatchetHit[] {
+  const count = step.ratchet
+  const ramp: RatchetRamp = count > 1 ? step.ratchetRamp : 'none'
+  return Array.from({ length: count }, (_, i) => {
+    const position = count > 1 ? i / (count - 1) : 1
+    let velocityScale = 1
+    if (ramp === 'up') {
+      velocityScale = RATCHET_RAMP_FLOOR + (1 - RATCHET_RAMP_FLOOR) * position
+    } else if (ramp === 'down') {
+      velocityScale = 1 - (1 - RATCHET_RAMP_FLOOR) * position
+    }
+    return { time: time + (duration / count) * i, velocityScale }
+  })
+}
+
+// Gain passed to playSound for a step
+export function getStepGain(step: Step, accented: boolean): number {
+  return Math.min(1, step.velocity + (accented ? ACCENT_BOOST : 0))
+}
+
+// Immutably update a single step
+export function updateStep(pattern: Pattern, trackIndex: number, stepIndex: number, changes: Partial<Step>): Pattern {
+  const steps = [...pattern.steps]
+  steps[trackIndex] = [...steps[trackIndex]]
+  steps[trackIndex][stepIndex] = { ...steps[trackIndex][stepIndex], ...changes }
+  return { ...pattern, steps }
+}
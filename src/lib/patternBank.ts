@@ -0,0 +1,52 @@
+import type { Pattern } from './pattern'
+
+// Pattern bank layout: banks A-H with 16 pattern slots each (A1-H16)
+export const BANKS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']
+export const SLOTS_PER_BANK = 16
+
+export type PatternSlotId = string // e.g. 'A1'
+
+// Patterns are created lazily, so empty slots are simply missing
+export type PatternBank = Record<PatternSlotId, Pattern>
+
+export const DEFAULT_SLOT: PatternSlotId = 'A1'
+
+export const MAX_SONG_REPEATS = 16
+
+// One block in the song arrangement
+export interface SongEntry {
+  id: string
+  slot: PatternSlotId
+  repeats: number // 1-MAX_SONG_REPEATS
+}
+
+// Position of the playing song entry and how many loops of it are left
+export interface SongPosition {
+  index: number
+  repeatsLeft: number
+}
+
+export function getSlotId(bank: string, index: number): PatternSlotId {
+  return `${bank}${index + 1}`
+}
+
+export function getSlotBank(slot: PatternSlotId): string {
+  return slot.charAt(0)
+}
+
+export function createSongEntry(slot: PatternSlotId, repeats: number = 1): SongEntry {
+  return { id: `song-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, slot, repeats }
+}
+
+export function isPatternEmpty(pattern: Pattern | undefined): boolean {
+  return !pattern || pattern.steps.every(track => track.every(step => !step.active))
+}
+
+// Song position that follows the current one, looping back to the start
+export function advanceSong(song: SongEntry[], position: SongPosition): SongPosition {
+  if (position.repeatsLeft > 1) {
+    return { ...position, repeatsLeft: position.repeatsLeft - 1 }
+  }
+  const index = (position.index + 1) % song.length
+  return { index, repeatsLeft: song[index].repeats }
+}
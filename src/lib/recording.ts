@@ -0,0 +1,44 @@
+import type { Pattern } from './pattern'
+import type { TrackPosition } from './transport'
+import { clampMicrotiming, clampVelocity, updateStep } from './pattern'
+
+// Live recording of played hits into a pattern
+
+// Home-row keys that play tracks 1-9 for finger drumming
+export const RECORD_KEYS = ['a', 's', 'd', 'f', 'g', 'h', 'j', 'k', 'l']
+
+// Velocity of keyboard hits; holding Shift plays at full velocity
+export const KEY_VELOCITY = 0.7
+
+export interface RecordSettings {
+  quantize: number // 0-1 strength; 1 snaps hits onto the grid
+  keepTiming: boolean // Store the raw offset from the grid instead of quantizing
+  keepVelocity: boolean // Store the played velocity instead of leaving the step's own
+}
+
+export const DEFAULT_RECORD_SETTINGS: RecordSettings = {
+  quantize: 1,
+  keepTiming: false,
+  keepVelocity: true
+}
+
+// Offset left on the step after quantizing a hit at the given strength
+export function getRecordedMicrotiming(position: TrackPosition, settings: RecordSettings): number {
+  const offset = settings.keepTiming ? position.offset : position.offset * (1 - settings.quantize)
+  return clampMicrotiming(offset)
+}
+
+// Write a played hit onto the nearest step of a track
+export function recordHit(
+  pattern: Pattern,
+  trackIndex: number,
+  position: TrackPosition,
+  velocity: number,
+  settings: RecordSettings
+): Pattern {
+  return updateStep(pattern, trackIndex, position.step, {
+    active: true,
+    microtiming: getRecordedMicrotiming(position, settings),
+    ...(settings.keepVelocity ? { velocity: clampVelocity(velocity) } : {})
+  })
+}
@@ -0,0 +1,57 @@
+// The sample a track plays, picked from one of the sound groups
+export interface SoundSelection {
+  name: string
+  groupKey: string
+  fileIndex: number
+  filePath: string
+}
+
+// Remy's sound groups organized by category
+export const SOUND_GROUPS = {
+  cough: { 
+    name: 'Cough', 
+    files: ['Cough 1.wav', 'Cough 2.wav', 'Cough 3.wav', 'Cough 4.wav', 'Cough 5.wav', 'Cough 6.wav', 'Cough 7.wav'],
+    defaultIndex: 0 
+  },
+  cry: { 
+    name: 'Cry', 
+    files: ['Cry 1.wav', 'Cry 2.wav', 'Cry 3.wav', 'Cry 4.wav', 'Cry 5.wav', 'Cry 6.wav', 'Cry 7.wav', 'Cry 8.wav', 'Cry 9.wav', 'Cry 10.wav', 'Cry 11.wav'],
+    defaultIndex: 0 
+  },
+  eat: { 
+    name: 'Eat', 
+    files: ['Eat 1.wav', 'Eat 2.wav', 'Eat 3.wav', 'Eat 4.wav', 'Eat 5.wav', 'Eat 6.wav', 'Eat 7.wav'],
+    defaultIndex: 0 
+  },
+  glurp: { 
+    name: 'Glurp', 
+    files: ['Glurp 1.wav', 'Glurp 2.wav', 'Glurp 3.wav', 'Glurp 4.wav', 'Glurp 5.wav', 'Glurp 6.wav', 'Glurp 7.wav', 'Glurp 8.wav'],
+    defaultIndex: 0 
+  },
+  misc: { 
+    name: 'Misc', 
+    files: ['Misc 1.wav', 'Misc 2.wav'],
+    defaultIndex: 0 
+  },
+  snore: { 
+    name: 'Snore', 
+    files: ['Snore 1.wav', 'Snore 2.wav', 'Snore 3.wav', 'Snore 4.wav', 'Snore 5.m4a'],
+    defaultIndex: 0 
+  },
+  squish: { 
+    name: 'Squish', 
+    files: ['Squish 1.m4a', 'Squish 2.wav', 'Squish 3.m4a', 'Squish 4.wav', 'Squish 5.wav', 'Squish 6.wav'],
+    defaultIndex: 0 
+  }
+}
+
+// Default sound selection - one from each group
+export const DEFAULT_SOUNDS: SoundSelection[] = [
+  { name: 'Cough', groupKey: 'cough', fileIndex: 0, filePath: 'Cough 1.wav' },
+  { name: 'Cry', groupKey: 'cry', fileIndex: 0, filePath: 'Cry 1.wav' },
+  { name: 'Eat', groupKey: 'eat', fileIndex: 0, filePath: 'Eat 1.wav' },
+  { name: 'Glurp', groupKey: 'glurp', fileIndex: 0, filePath: 'Glurp 1.wav' },
+  { name: 'Misc', groupKey: 'misc', fileIndex: 0, filePath: 'Misc 1.wav' },
+  { name: 'Snore', groupKey: 'snore', fileIndex: 0, filePath: 'Snore 1.wav' },
+  { name: 'Squish', groupKey: 'squish', fileIndex: 0, filePath: 'Squish 1.m4a' }
+]
@@ -0,0 +1,118 @@
+import type { Pattern, Step } from './pattern'
+import { MAX_STEPS, createStep } from './pattern'
+
+// Editing operations on ranges of steps across one or more tracks
+
+// Rectangle of steps, inclusive on both ends. Anchor order doesn't matter.
+export interface StepSelection {
+  startTrack: number
+  endTrack: number
+  startStep: number
+  endStep: number
+}
+
+// Copied rows of steps, top to bottom
+export type StepClipboard = Step[][]
+
+export function normalizeSelection(selection: StepSelection): StepSelection {
+  return {
+    startTrack: Math.min(selection.startTrack, selection.endTrack),
+    endTrack: Math.max(selection.startTrack, selection.endTrack),
+    startStep: Math.min(selection.startStep, selection.endStep),
+    endStep: Math.max(selection.startStep, selection.endStep)
+  }
+}
+
+export function isStepSelected(selection: StepSelection | null, trackIndex: number, stepIndex: number): boolean {
+  if (!selection) return false
+  const { startTrack, endTrack, startStep, endStep } = normalizeSelection(selection)
+  return trackIndex >= startTrack && trackIndex <= endTrack && stepIndex >= startStep && stepIndex <= endStep
+}
+
+// A track's whole row, up to its own length
+export function getTrackSelection(pattern: Pattern, trackIndex: number): StepSelection {
+  return { startTrack: trackIndex, endTrack: trackIndex, startStep: 0, endStep: pattern.timing[trackIndex].length - 1 }
+}
+
+// Replace the selected steps of each track, clipped to the track's length. Euclidean
+// generators on touched tracks are turned off so the edit isn't regenerated away.
+function mapSelection(pattern: Pattern, selection: StepSelection, update: (steps: Step[]) => Step[]): Pattern {
+  const { startTrack, endTrack, startStep, endStep } = normalizeSelection(selection)
+  const steps = [...pattern.steps]
+  const euclid = [...pattern.euclid]
+
+  for (let trackIndex = startTrack; trackIndex <= Math.min(endTrack, steps.length - 1); trackIndex++) {
+    const end = Math.min(endStep, pattern.timing[trackIndex].length - 1)
+    if (end < startStep) continue
+
+    const row = [...steps[trackIndex]]
+    row.splice(startStep, end - startStep + 1, ...update(row.slice(startStep, end + 1)))
+    steps[trackIndex] = row
+    euclid[trackIndex] = null
+  }
+  return { ...pattern, steps, euclid }
+}
+
+export function copySteps(pattern: Pattern, selection: StepSelection): StepClipboard {
+  const { startTrack, endTrack, startStep, endStep } = normalizeSelection(selection)
+  return pattern.steps.slice(startTrack, endTrack + 1).map(row => row.slice(startStep, endStep + 1))
+}
+
+// Paste rows with their top-left corner at the given step, dropping what falls off the pattern
+export function pasteSteps(pattern: Pattern, clipboard: StepClipboard, trackIndex: number, stepIndex: number): Pattern {
+  const steps = [...pattern.steps]
+  const euclid = [...pattern.euclid]
+  const height = Math.min(clipboard.length, steps.length - trackIndex)
+
+  for (let row = 0; row < height; row++) {
+    const target = trackIndex + row
+    const copied = clipboard[row].slice(0, MAX_STEPS - stepIndex).map(step => ({ ...step }))
+    const next = [...steps[target]]
+    next.splice(stepIndex, copied.length, ...copied)
+    steps[target] = next
+    euclid[target] = null
+  }
+  return { ...pattern, steps, euclid }
+}
+
+// Move the selected steps one step left (-1) or right (1), wrapping within the selection
+export function nudgeSteps(pattern: Pattern, selection: StepSelection, direction: -1 | 1): Pattern {
+  return mapSelection(pattern, selection, steps =>
+    direction === 1 ? [...steps.slice(-1), ...steps.slice(0, -1)] : [...steps.slice(1), ...steps.slice(0, 1)]
+  )
+}
+
+export function reverseSteps(pattern: Pattern, selection: StepSelection): Pattern {
+  return mapSelection(pattern, selection, steps => [...steps].reverse())
+}
+
+// Active steps turn off and empty steps turn on, keeping their other settings
+export function invertSteps(pattern: Pattern, selection: StepSelection): Pattern {
+  return mapSelection(pattern, selection, steps => steps.map(step => ({ ...step, active: !step.active })))
+}
+
+export function clearSteps(pattern: Pattern, selection: StepSelection): Pattern {
+  return mapSelection(pattern, selection, steps => steps.map(createStep))
+}
+
+// Copy each selected track's row after itself and double its length (1-16 into 17-32)
+export function doubleTracks(pattern: Pattern, startTrack: number, endTrack: number): Pattern {
+  const steps = [...pattern.steps]
+  const timing = [...pattern.timing]
+  const euclid = [...pattern.euclid]
+
+  for (let trackIndex = Math.min(startTrack, endTrack); trackIndex <= Math.max(startTrack, endTrack); trackIndex++) {
+    const length = timing[trackIndex].length
+    const doubled = Math.min(MAX_STEPS, length * 2)
+    if (doubled === length) continue
+
+    const row = [...steps[trackIndex]]
+    for (let i = length; i < doubled; i++) {
+      row[i] = { ...row[i - length] }
+    }
+    steps[trackIndex] = row
+    timing[trackIndex] = { ...timing[trackIndex], length: doubled }
+    euclid[trackIndex] = null
+  }
+  return { ...pattern, steps, timing, euclid }
+}
@@ -0,0 +1,108 @@
+import type { TrackEffect } from './effectsEngine'
+import type { Modulator } from './modulation'
+import type { SoundSelection } from './sounds'
+import type { TrackSend } from './buses'
+import { DEFAULT_SOUNDS } from './sounds'
+
+// Stable identity of a track, so effect chains and settings follow it when tracks move
+export type TrackId = string
+
+// One row of the sequencer. Patterns keep their rows in the same order as the track list.
+export interface Track {
+  id: TrackId
+  sound: SoundSelection
+  tuning: number // Semitones, MIN_TUNING-MAX_TUNING
+  effects: TrackEffect[]
+  modulators: Modulator[] // LFOs and envelopes driving parameters of the track's effects
+  volume: number // dB, MIN_VOLUME_DB-MAX_VOLUME_DB
+  pan: number // -1 (left) to 1 (right)
+  sends: Record<string, TrackSend> // By aux bus id; missing buses aren't sent to
+  muted: boolean
+  solo: boolean
+  groupId: string | null
+}
+
+// Named set of tracks that can be muted together
+export interface TrackGroup {
+  id: string
+  name: string
+  muted: boolean
+}
+
+export function createTrackId(): TrackId {
+  return `track-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`
+}
+
+export function createTrack(sound: SoundSelection): Track {
+  return { id: createTrackId(), sound, tuning: 0, effects: [], modulators: [], volume: 0, pan: 0, sends: {}, muted: false, solo: false, groupId: null }
+}
+
+export function createTrackGroup(name: string): TrackGroup {
+  return { id: `group-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, name, muted: false }
+}
+
+// One track per sound group, as the sequencer starts out
+export function createDefaultTracks(): Track[] {
+  return DEFAULT_SOUNDS.map(createTrack)
+}
+
+// Copy of a track under a new id. Effect ids are kept so copied parameter locks still apply.
+export function duplicateTrack(track: Track): Track {
+  return {
+    ...track,
+    id: createTrackId(),
+    effects: track.effects.map(effect => ({ ...effect, params: { ...effect.params } }))
+  }
+}
+
+export function getTrackName(track: Track): string {
+  return `${track.sound.name} ${track.sound.fileIndex + 1}`
+}
+
+// Copy of a list with one item moved to a new index
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const moved = [...items]
+  const [item] = moved.splice(from, 1)
+  moved.splice(to, 0, item)
+  return moved
+}
+
+// Soloed tracks are heard regardless of mutes. Without any solo, a track is
+// heard unless it or its group is muted.
+export function isTrackAudible(track: Track, tracks: Track[], groups: TrackGroup[]): boolean {
+  if (tracks.some(other => other.solo)) return track.solo
+  if (track.muted) return false
+  return !groups.some(group => group.id === track.groupId && group.muted)
+}
+
+// Toggle a track's solo. Exclusive solo leaves it as the only soloed track,
+// or clears all solos when it already was.
+export function toggleSolo(tracks: Track[], trackIndex: number, exclusive: boolean): Track[] {
+  const target = tracks[trackIndex]
+  if (!exclusive) {
+    return tracks.map((track, index) => index === trackIndex ? { ...track, solo: !track.solo } : track)
+  }
+
+  const onlySolo = target.solo && tracks.every(track => track === target || !track.solo)
+  return tracks.map(track => {
+    const solo = !onlySolo && track === target
+    return track.solo === solo ? track : { ...track, solo }
+  })
+}
+
+// Put every ungrouped track into a group named after its sound, reusing groups
+// that already have that name
+export function groupTracksBySound(tracks: Track[], groups: TrackGroup[]): { tracks: Track[]; groups: TrackGroup[] } {
+  const nextGroups = [...groups]
+  const nextTracks = tracks.map(track => {
+    if (track.groupId) return track
+
+    let group = nextGroups.find(existing => existing.name === track.sound.name)
+    if (!group) {
+      group = createTrackGroup(track.sound.name)
+      nextGroups.push(group)
+    }
+    return { ...track, groupId: group.id }
+  })
+  return { tracks: nextTracks, groups: nextGroups }
+}
@@ -0,0 +1,322 @@
+import { audioEngine } from './audioEngine'
+import { MAX_MICROTIMING } from './pattern'
+
+// How often the scheduler wakes up (ms) and how far ahead it schedules audio (s).
+// Steps are handed to the step callback with their exact AudioContext start time,
+// so timer jitter only has to stay below the lookahead window.
+const LOOKAHEAD_MS = 25
+const SCHEDULE_AHEAD_TIME = 0.1
+
+// Small delay before the first step so the first hit isn't scheduled in the past
+const START_OFFSET = 0.05
+
+// Slack when comparing step times of lanes at different speeds, which add up
+// their step durations with different rounding errors
+const TIME_EPSILON = 1e-6
+
+// Timer ticks run in a worker so background tab throttling doesn't starve the scheduler
+const TIMER_WORKER_SOURCE = `
+let timerId = null
+onmessage = (event) => {
+  if (event.data === 'start' && timerId === null) {
+    timerId = setInterval(() => postMessage('tick'), ${LOOKAHEAD_MS})
+  } else if (event.data === 'stop') {
+    clearInterval(timerId)
+    timerId = null
+  }
+}
+`
+
+// Called once per master step, before any track step at the same time
+export type MasterStepCallback = (step: number, time: number, pass: number) => void
+
+// Called once per track step with the track index, step index, AudioContext start
+// time, step duration in seconds, the loop pass that track is on (0 for the first)
+// and the master step the track step starts in
+export type TrackStepCallback = (trackIndex: number, step: number, time: number, duration: number, pass: number, masterStep: number) => void
+
+// Length and speed of a track's own clock
+export interface LaneConfig {
+  length: number
+  speed: number // Multiplier of the base step rate
+}
+
+// A track's clock, identified by the track so it keeps running when tracks are reordered
+export interface TrackLaneConfig extends LaneConfig {
+  id: string
+}
+
+// Nearest track step to a moment, and how far off the grid the moment is
+export interface TrackPosition {
+  step: number
+  offset: number // Fraction of a step, -0.5 to 0.5
+  pass: number // Loop pass of the lane the step falls in
+  pending: boolean // The step hasn't been handed to the track step callback yet
+}
+
+interface QueuedStep {
+  step: number
+  pass: number
+  time: number
+}
+
+// A looping step counter running at its own length and speed
+interface Lane extends LaneConfig {
+  id?: string
+  step: number
+  pass: number
+  nextTime: number
+  queue: QueuedStep[]
+}
+
+function createLane(config: LaneConfig | TrackLaneConfig, nextTime: number): Lane {
+  return { ...config, step: 0, pass: 0, nextTime, queue: [] }
+}
+
+// Web Audio lookahead scheduler driving the sequencer clock. The master lane
+// follows the pattern length; each track additionally runs on its own lane.
+class Transport {
+  private tempo = 120
+  private stepQuarterNotes = 1 / 4
+  private running = false
+  private master: Lane = createLane({ length: 16, speed: 1 }, 0)
+  private lanes: Lane[] = []
+  private masterStepCallback: MasterStepCallback | null = null
+  private trackStepCallback: TrackStepCallback | null = null
+  private worker: Worker | null = null
+  private intervalId: ReturnType<typeof setInterval> | null = null
+
+  setTempo(bpm: number) {
+    this.tempo = bpm
+  }
+
+  // Step resolution as a fraction of a quarter note (1/4 for 16ths, 1/6 for 16th triplets)
+  setResolution(quarterNotes: number) {
+    this.stepQuarterNotes = quarterNotes
+  }
+
+  setLength(steps: number) {
+    this.configureLane(this.master, { length: steps, speed: 1 })
+  }
+
+  // Update per-track lengths and speeds in track order, keeping running lanes in place
+  setTracks(configs: TrackLaneConfig[]) {
+    this.lanes = configs.map(config => {
+      const lane = this.lanes.find(existing => existing.id === config.id)
+      if (!lane) {
+        return createLane(config, this.master.nextTime)
+      }
+      this.configureLane(lane, config)
+      return lane
+    })
+  }
+
+  // Duration of a single step in seconds at the current resolution
+  getStepDuration(): number {
+    return (60 / this.tempo) * this.stepQuarterNotes
+  }
+
+  // Duration of a 16th note in seconds, the grid groove templates are laid out on
+  getSixteenthDuration(): number {
+    return 60 / this.tempo / 4
+  }
+
+  onMasterStep(callback: MasterStepCallback | null) {
+    this.masterStepCallback = callback
+  }
+
+  onTrackStep(callback: TrackStepCallback | null) {
+    this.trackStepCallback = callback
+  }
+
+  isRunning() {
+    return this.running
+  }
+
+  start() {
+    const context = audioEngine.getAudioContext()
+    if (!context || this.running) return
+
+    this.running = true
+    const startTime = context.currentTime + START_OFFSET
+    this.resetLane(this.master, startTime)
+    this.lanes.forEach(lane => this.resetLane(lane, startTime))
+
+    this.scheduleAhead()
+    this.startTimer()
+  }
+
+  // Make the master step being scheduled step 0 of every lane, e.g. when switching
+  // patterns. Only meaningful from inside the master step callback.
+  restartLanes() {
+    const time = this.master.nextTime
+    this.master.step = 0
+    this.master.pass = 0
+    this.lanes.forEach(lane => {
+      lane.step = 0
+      lane.pass = 0
+      lane.nextTime = time
+    })
+  }
+
+  stop() {
+    if (!this.running) return
+
+    this.running = false
+    this.stopTimer()
+    this.master.queue = []
+    this.lanes.forEach(lane => {
+      lane.queue = []
+    })
+  }
+
+  // Master step currently audible, based on the audio clock rather than the timer.
+  // Returns null before the first scheduled step has started.
+  getPlayheadStep(): number | null {
+    return this.getLanePlayhead(this.master)
+  }
+
+  // Audible step of every track lane
+  getTrackPlayheads(): (number | null)[] {
+    return this.lanes.map(lane => this.getLanePlayhead(lane))
+  }
+
+  // Nearest step of a track lane to an AudioContext time at or before now, e.g.
+  // for recording a hit. Returns null while the track hasn't started playing.
+  getTrackPosition(trackIndex: number, time: number): TrackPosition | null {
+    const lane = this.lanes[trackIndex]
+    if (!lane || !this.running) return null
+
+    // The queue is in time order, so the started steps are a prefix of it
+    const started = lane.queue.filter(queued => queued.time <= time)
+    const current = started[started.length - 1]
+    if (!current) return null
+
+    const position = (time - current.time) / (this.getStepDuration() / lane.speed)
+    if (position > 0.5) {
+      const step = (current.step + 1) % lane.length
+      const pass = step === 0 ? current.pass + 1 : current.pass
+      return { step, offset: position - 1, pass, pending: started.length === lane.queue.length }
+    }
+    return { step: current.step, offset: position, pass: current.pass, pending: false }
+  }
+
+  private configureLane(lane: Lane, config: LaneConfig) {
+    lane.length = config.length
+    lane.speed = config.speed
+    if (lane.step >= config.length) {
+      lane.step = 0
+    }
+  }
+
+  private resetLane(lane: Lane, startTime: number) {
+    lane.step = 0
+    lane.pass = 0
+    lane.nextTime = startTime
+    lane.queue = []
+  }
+
+  private getLanePlayhead(lane: Lane): number | null {
+    const context = audioEngine.getAudioContext()
+    if (!context || !this.running) return null
+
+    this.trimQueue(lane, context.currentTime)
+    const current = lane.queue[0]
+    return current && current.time <= context.currentTime ? current.step : null
+  }
+
+  // Drop steps that have finished, keeping the latest started one at the front
+  // so playhead polls and recorded hits still see it
+  private trimQueue(lane: Lane, now: number) {
+    let started = 0
+    while (started < lane.queue.length && lane.queue[started].time <= now) {
+      started++
+    }
+    if (started > 1) {
+      lane.queue.splice(0, started - 1)
+    }
+  }
+
+  private scheduleAhead() {
+    const context = audioEngine.getAudioContext()
+    if (!context || !this.running) return
+
+    // Steps pulled early by microtiming start up to MAX_MICROTIMING of a step
+    // before their grid time, so look that much further ahead on the slowest lane
+    const slowest = Math.min(this.master.speed, ...this.lanes.map(lane => lane.speed))
+    const earliest = MAX_MICROTIMING * this.getStepDuration() / slowest
+    const horizon = context.currentTime + SCHEDULE_AHEAD_TIME + earliest
+
+    // Trim here too, as the playhead polls stop while the tab is in the background
+    this.trimQueue(this.master, context.currentTime)
+    this.lanes.forEach(lane => this.trimQueue(lane, context.currentTime))
+
+    // Schedule lanes in time order so master step callbacks (which may restart
+    // the track lanes) always run before track steps at the same time
+    for (;;) {
+      let next: Lane = this.master
+      let trackIndex: number | undefined
+      this.lanes.forEach((lane, index) => {
+        if (lane.nextTime < next.nextTime) {
+          next = lane
+          trackIndex = index
+        }
+      })
+      if (next.nextTime >= horizon) break
+
+      this.scheduleStep(next, trackIndex)
+    }
+  }
+
+  private scheduleStep(lane: Lane, trackIndex?: number) {
+    const duration = this.getStepDuration() / lane.speed
+    if (trackIndex === undefined) {
+      this.masterStepCallback?.(lane.step, lane.nextTime, lane.pass)
+    } else {
+      this.trackStepCallback?.(trackIndex, lane.step, lane.nextTime, duration, lane.pass, this.getMasterStepAt(lane.nextTime))
+    }
+    lane.queue.push({ step: lane.step, pass: lane.pass, time: lane.nextTime })
+
+    lane.nextTime += duration
+    lane.step = (lane.step + 1) % lane.length
+    if (lane.step === 0) {
+      lane.pass++
+    }
+  }
+
+  // Master step playing at a time. Master steps are scheduled before track steps
+  // at the same time, so the one containing a track step is already queued.
+  private getMasterStepAt(time: number): number {
+    const started = this.master.queue.filter(queued => queued.time <= time + TIME_EPSILON)
+    return started[started.length - 1]?.step ?? this.master.step
+  }
+
+  private startTimer() {
+    if (typeof Worker !== 'undefined') {
+      try {
+        if (!this.worker) {
+          const blob = new Blob([TIMER_WORKER_SOURCE], { type: 'application/javascript' })
+          this.worker = new Worker(URL.createObjectURL(blob))
+          this.worker.onmessage = () => this.scheduleAhead()
+        }
+        this.worker.postMessage('start')
+        return
+      } catch (error) {
+        console.error('Failed to start timer worker, falling back to setInterval:', error)
+        this.worker = null
+      }
+    }
+
+    this.intervalId = setInterval(() => this.scheduleAhead(), LOOKAHEAD_MS)
+  }
+
+  private stopTimer() {
+    this.worker?.postMessage('stop')
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+  }
+}
+
+export const transport = new Transport()